@@ -3,7 +3,25 @@ import type {
   LicenseOption,
   ActivityThresholds,
   ScoreWeights,
-  FileOutputs
+  FileOutputs,
+  SearchLimits,
+  RankingWeights,
+  SortOption,
+  RankingOption,
+  RepoTypeExclusionOption,
+  ExitCodes,
+  IssueRankWeights,
+  SimilarityWeights,
+  RateLimitSettings,
+  RequestCosts,
+  RepoCacheTTLs,
+  CommitActivitySettings,
+  CacheLimits,
+  ProviderKind,
+  ProviderConfig,
+  ProviderDefaults,
+  GitHubEnterpriseDefaults,
+  BusFactorSettings
 } from './types/index.js';
 
 export const LANGUAGES: string[] = [
@@ -11,6 +29,14 @@ export const LANGUAGES: string[] = [
   'JavaScript',
   'Python',
   'Go',
+  'Rust',
+  'Java',
+  'Kotlin',
+  'C#',
+  'C++',
+  'Ruby',
+  'PHP',
+  'Swift'
 ];
 
 export const LICENSES: LicenseOption[] = [
@@ -23,6 +49,29 @@ export const LICENSES: LicenseOption[] = [
   { name: 'Mozilla Public License 2.0', value: 'mpl-2.0' }
 ];
 
+export const SORT_OPTIONS: SortOption[] = [
+  { name: 'Recently updated', value: 'updated' },
+  { name: 'Stars', value: 'stars' },
+  { name: 'Forks', value: 'forks' },
+  { name: 'Help wanted issues', value: 'help-wanted-issues' },
+  { name: 'Best match', value: 'best-match' }
+];
+
+export const REPO_TYPE_EXCLUSIONS: RepoTypeExclusionOption[] = [
+  { name: 'Archived repositories', value: 'archived' },
+  { name: 'Forks', value: 'forks' },
+  { name: 'Mirrors', value: 'mirrors' },
+  { name: 'Template repositories', value: 'templates' }
+];
+
+export const RANKING_OPTIONS: RankingOption[] = [
+  { name: 'Activity score', value: 'score' },
+  { name: 'Stars', value: 'stars' },
+  { name: 'Freshness (last commit)', value: 'freshness' },
+  { name: 'Good first issues count', value: 'good-first-issues' },
+  { name: 'Weighted mix', value: 'weighted' }
+];
+
 export const DEFAULT_CONFIG: UserConfig = {
   minStars: 100,
   maxResults: 5,
@@ -31,12 +80,81 @@ export const DEFAULT_CONFIG: UserConfig = {
   cacheEnabled: true,
   cacheTTL: 3600000, // 1 hour in milliseconds
   retryAttempts: 3,
-  retryDelay: 1000 // initial delay in milliseconds
+  retryDelay: 1000, // initial delay in milliseconds
+  sort: 'updated',
+  ranking: 'score',
+  analysisConcurrency: 5, // repositories analyzed in parallel
+  cacheMaxSize: 52428800, // 50 MB, least recently used entries go first
+  issueSample: 30,        // issues checked for maintainer response times
+  issueSampleDays: 180
+};
+
+export const SEARCH_LIMITS: SearchLimits = {
+  PAGE_SIZE: 100,     // max per_page allowed by the search API
+  MAX_RESULTS: 1000   // GitHub never returns more than 1000 search results
+};
+
+export const DEFAULT_HOST = 'github.com';
+
+// Forges known without configuration, more go in "providers" of the config file
+export const KNOWN_PROVIDERS: ProviderConfig[] = [
+  { host: 'github.com', kind: 'github' },
+  { host: 'gitlab.com', kind: 'gitlab' },
+  { host: 'codeberg.org', kind: 'gitea' } // Forgejo, API compatible with Gitea
+];
+
+export const PROVIDER_DEFAULTS: Record<ProviderKind, ProviderDefaults> = {
+  github: { TOKEN_ENV: 'GITHUB_TOKEN', PAGE_SIZE: SEARCH_LIMITS.PAGE_SIZE, API_PATH: '/api/v3' }, // Enterprise Server, github.com uses api.github.com
+  gitlab: { TOKEN_ENV: 'GITLAB_TOKEN', PAGE_SIZE: 100, API_PATH: '/api/v4' },
+  gitea: { TOKEN_ENV: 'GITEA_TOKEN', PAGE_SIZE: 50, API_PATH: '/api/v1' } // Gitea caps pages at 50 by default
+};
+
+// Enterprise Server hosts can also be listed in the environment, comma separated
+export const GITHUB_ENTERPRISE: GitHubEnterpriseDefaults = {
+  HOSTS_ENV: 'GITPICK_GHES_HOSTS',
+  TOKEN_ENV: 'GITHUB_ENTERPRISE_TOKEN'
+};
+
+export const GRAPHQL_BATCH_SIZE = 10; // repositories per GraphQL query
+
+export const ISSUE_COMMENTS_LIMIT = 30; // comments read per issue to find the first maintainer response
+
+export const PR_SAMPLE_SIZE = 20; // recently closed pull requests for merge and review statistics
+export const MIN_NEWCOMER_PRS = 3; // newcomer pull requests needed before they count in the score
+
+// Cache lives in $XDG_CACHE_HOME/gitpick (~/.cache/gitpick), cacheDir in config overrides it
+export const CACHE_DIR_NAME = 'gitpick';
+
+// Saved tokens live in $XDG_CONFIG_HOME/gitpick (~/.config/gitpick), readable by the owner only
+export const CREDENTIALS_DIR_NAME = 'gitpick';
+export const CREDENTIALS_FILE = 'credentials.json';
+
+// Token scopes that allow fork, star and watch, one of them is enough.
+// Gitea doesn't report scopes.
+export const ACTION_SCOPES: Partial<Record<ProviderKind, string[]>> = {
+  github: ['public_repo', 'repo'],
+  gitlab: ['api']
+};
+
+export const CACHE_LIMITS: CacheLimits = {
+  STALE_MAX_AGE: 604800000,    // 7 days, kept for revalidation and offline use
+  PRUNE_INTERVAL: 86400000,    // prune expired entries once a day
+  EVICT_TARGET: 0.9            // evict down to 90% of the max size
 };
 
-export const CACHE_DIR = '.repo-finder-cache';
 export const CONFIG_FILE = '.repo-finder.config.json';
 
+// How long each part of a repository analysis stays cached, in milliseconds
+export const REPO_CACHE_TTL: RepoCacheTTLs = {
+  METADATA: 3600000,            // 1 hour, stars and issue counts move fast
+  LAST_COMMIT: 3600000,         // 1 hour
+  GOOD_FIRST_ISSUES: 21600000,  // 6 hours
+  COMMUNITY_FILES: 604800000,   // 7 days, CONTRIBUTING and CoC rarely change
+  CONTRIBUTORS: 86400000,       // 1 day, count and bus factor
+  COMMIT_ACTIVITY: 86400000,    // 1 day, GitHub recomputes weekly commit counts on push
+  STATS: 86400000               // 1 day, PR and issue response statistics
+};
+
 export const ACTIVITY_THRESHOLDS: ActivityThresholds = {
   VERY_ACTIVE: 7,    // < 7 days
   ACTIVE: 30,        // < 30 days
@@ -49,9 +167,69 @@ export const SCORE_WEIGHTS: ScoreWeights = {
   ACTIVITY: 0.3,
   ISSUES: 0.15,
   CONTRIBUTING: 0.15,
+  GOOD_FIRST_ISSUES: 0.2,
+  NEWCOMER_PRS: 0.15 // blended in only when advanced stats have enough newcomer PRs
+};
+
+export const RANKING_WEIGHTS: RankingWeights = {
+  SCORE: 0.4,
+  STARS: 0.2,
+  FRESHNESS: 0.2,
   GOOD_FIRST_ISSUES: 0.2
 };
 
+export const ISSUE_RANK_WEIGHTS: IssueRankWeights = {
+  FRESHNESS: 0.3,
+  COMMENTS: 0.2,
+  UNASSIGNED: 0.2,
+  REPO_SCORE: 0.3
+};
+
+export const SIMILARITY_WEIGHTS: SimilarityWeights = {
+  TOPIC_OVERLAP: 0.6,
+  SCORE: 0.4
+};
+
+export const RATE_LIMIT: RateLimitSettings = {
+  MAX_WAIT_SECONDS: 900,              // longer waits fail instead of hanging
+  SECONDARY_RETRIES: 3,
+  DEFAULT_SECONDARY_WAIT_SECONDS: 60  // when GitHub sends no retry-after
+};
+
+// Bus factor counts the authors of up to 100 commits from the last 90 days
+export const BUS_FACTOR: BusFactorSettings = {
+  WINDOW_DAYS: 90,
+  MAX_COMMITS: 100
+};
+
+// Weekly commit counts for a year. GitHub answers 202 while it computes
+// them, it's asked again after 2, 4 and 8 seconds.
+export const COMMIT_ACTIVITY: CommitActivitySettings = {
+  WEEKS: 52,
+  TREND_WEEKS: 12,      // the last 12 weeks against the 12 before
+  COMPUTE_ATTEMPTS: 4,
+  COMPUTE_DELAY: 2000
+};
+
+// Requests per step, used to estimate whether a search fits the budget
+export const REQUEST_COSTS: RequestCosts = {
+  SEARCH_PER_PAGE: 1,
+  REST_PER_REPO: 7,          // last commit, issues, CONTRIBUTING, CoC, contributors, recent commits, commit activity
+  BATCHED_REST_PER_REPO: 3,  // contributors, recent commits and commit activity, the rest comes from GraphQL
+  GRAPHQL_PER_BATCH: 1,
+  ADVANCED_PER_REPO: 53      // closed PRs and their 20 review lookups, recent issues and up to 30 comment lookups
+};
+
+export const DEFAULT_ISSUE_LABELS = ['good first issue'];
+
+export const EXIT_CODES: ExitCodes = {
+  SUCCESS: 0,
+  ERROR: 1,
+  NO_RESULTS: 2,
+  RATE_LIMITED: 3,
+  AUTH_FAILED: 4
+};
+
 export const FILE_OUTPUTS: FileOutputs = {
   JSON: 'repos-results.json',
   MARKDOWN: 'repos-report.md',
@@ -7,20 +7,77 @@ import ora, { Ora } from 'ora';
 import open from 'open';
 import cliProgress from 'cli-progress';
 import minimist from 'minimist';
-import { LANGUAGES, LICENSES, DEFAULT_CONFIG } from './config.js';
-import { getCache, setCache, getCacheStats } from './utils/cache.js';
+import {
+  LICENSES,
+  DEFAULT_CONFIG,
+  SEARCH_LIMITS,
+  SORT_OPTIONS,
+  RANKING_OPTIONS,
+  REPO_TYPE_EXCLUSIONS,
+  EXIT_CODES,
+  DEFAULT_ISSUE_LABELS,
+  DEFAULT_HOST,
+  GITHUB_ENTERPRISE,
+  ACTION_SCOPES,
+  CONFIG_FILE
+} from './config.js';
+import {
+  getCache,
+  setCache,
+  getCacheStats,
+  clearCache,
+  listCacheEntries,
+  pruneCache,
+  pruneCacheInBackground,
+  configureCache,
+  formatBytes,
+  installResponseCache,
+  getCachedRepoFields,
+  getStaleRepoFields,
+  setCachedRepoFields,
+  getStaleCache
+} from './utils/cache.js';
 import { loadUserConfig, addToHistory, getSearchHistory } from './utils/userConfig.js';
-import { withRetry } from './utils/retry.js';
-import { exportToJSON, exportToMarkdown, exportToCSV, exportToHTML } from './utils/export.js';
+import { withRetry, isRateLimitError, isAuthError } from './utils/retry.js';
+import {
+  exportToJSON,
+  exportToMarkdown,
+  exportToCSV,
+  exportToHTML,
+  formatResults
+} from './utils/export.js';
 import {
   calculateOverallScore,
   getPRStats,
   getIssueResponseStats,
-  getContributorsCount,
+  configureIssueSample,
+  getContributorStats,
+  getCommitActivity,
+  getActivityTrend,
   hasCodeOfConduct,
   getLicense
 } from './utils/analytics.js';
 import { getTemplate, listTemplates } from './utils/templates.js';
+import { resolveDateExpressions, setClock, getNow } from './utils/dateExpressions.js';
+import { fetchReposGraphQL, repoKey } from './utils/graphql.js';
+import { mapWithConcurrency, getErrorMessage } from './utils/concurrency.js';
+import { isOffline, goOffline, isOfflineMissError, installOfflineDetection } from './utils/offline.js';
+import { installRecorder, installReplayer, loadFixtures, REPLAY_TOKEN } from './utils/fixtures.js';
+import {
+  installRateLimitScheduler,
+  fetchRateLimits,
+  estimateRequestCost,
+  checkBudget,
+  formatWait
+} from './utils/rateLimit.js';
+import { buildSimilarSearchParams, rankBySimilarity, topicOverlap } from './utils/similarity.js';
+import { buildIssueQuery, searchIssues, rankIssues, getIssueAge } from './utils/issueSearch.js';
+import { rankResults, isSearchSort, isRankingStrategy } from './utils/ranking.js';
+import {
+  getLanguageChoices,
+  formatLanguages,
+  parseLanguages
+} from './utils/languages.js';
 import {
   loadBookmarks,
   addBookmark,
@@ -32,6 +89,11 @@ import {
   createColoredBar,
   createHealthIndicator,
   visualizeActivity,
+  visualizeBusFactor,
+  visualizeCommitActivity,
+  createSparkline,
+  bucketSeries,
+  getTrendIndicator,
   formatLargeNumber,
   formatNumberWithColor,
   createBadge,
@@ -40,84 +102,343 @@ import {
 import {
   forkRepository,
   starRepository,
+  unstarRepository,
   cloneRepository,
   watchRepository,
-  checkIfStarred
+  checkIfStarred,
+  getAuthenticatedUser
 } from './utils/githubActions.js';
+import {
+  findToken,
+  getTokenEnv,
+  getCredentialsPath,
+  getCredentialsWarning,
+  formatPath,
+  saveCredential,
+  removeCredential
+} from './utils/credentials.js';
+import {
+  configureProviders,
+  registerProvider,
+  getProvider,
+  getProviderForUrl,
+  getGitHubConfigs,
+  getProviderConfig,
+  getProviderConfigs,
+  createProvider,
+  getRepoRef,
+  isKnownHost,
+  parseRepoUrl,
+  toSearchHost
+} from './providers/index.js';
+import { createGitHubProvider, getGitHubApiUrl } from './providers/github.js';
 import type {
+  OctokitInstance,
+  ProviderConfig,
+  FixtureFile,
+  ProviderKind,
+  GitHubRepo,
+  RepoRef,
+  RepoProvider,
+  RepoDetails,
+  RepoDetailFailures,
+  RepoBatchEntry,
+  RequestCost,
+  RepoCacheValues,
+  RepoCacheField,
+  CommunityFiles,
+  ContributorStats,
+  RepoStats,
   SearchParams,
+  UserConfig,
+  RepoTypeExclusion,
   RepoAnalysis,
+  PRGroupStats,
   GoodFirstIssue,
   InquirerAnswers,
   ExportFormatsAnswer,
   InteractiveChoiceValue,
-  RepoActionAnswer
+  RepoActionAnswer,
+  ExportFormat,
+  IssueSearchParams,
+  IssueCandidate
 } from './types/index.js';
 
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN // optional, but increases rate limit from 60 to 5000 requests/hour
-});
+// Octokit per GitHub host, created in main() once the hosts are configured
+const githubClients = new Map<string, OctokitInstance>();
 
-interface GitHubRepo {
-  full_name: string;
-  name: string;
-  owner: {
-    login: string;
-  };
-  description: string | null;
-  stargazers_count: number;
-  language: string | null;
-  html_url: string;
-  open_issues_count: number;
-  forks_count: number;
-  topics: string[];
-  license?: {
-    name: string;
-  } | null;
+function createGitHubClient(config: ProviderConfig, token: string | undefined): OctokitInstance {
+  return new Octokit({
+    baseUrl: getGitHubApiUrl(config),
+    auth: token,                 // optional, but increases rate limit from 60 to 5000 requests/hour
+    throttle: { enabled: false } // rate limits are handled by our own scheduler
+  });
 }
 
 /**
- * Parse GitHub URL to extract owner and repo
+ * Create the Octokit and provider of github.com and each GitHub Enterprise
+ * Server host, with the token found for it. Rate limits are only scheduled
+ * for github.com, Enterprise Server usually has them turned off.
  */
-function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
-  try {
-    // Support formats:
-    // - https://github.com/owner/repo
-    // - github.com/owner/repo
-    // - owner/repo
-    const cleaned = url.replace(/^https?:\/\//, '').replace(/^github\.com\//, '');
-    const parts = cleaned.split('/').filter(p => p.length > 0);
-
-    if (parts.length >= 2) {
-      return {
-        owner: parts[0],
-        repo: parts[1].replace(/\.git$/, '') // Remove .git if present
-      };
+function registerGitHubHosts(
+  configs: ProviderConfig[],
+  getToken: (config: ProviderConfig) => string | null = config => findToken(config)?.token ?? null
+): void {
+  for (const config of configs) {
+    const token = getToken(config);
+    const client = createGitHubClient(config, token ?? undefined);
+    const provider = createGitHubProvider(client, config, token !== null);
+    if (provider.host === DEFAULT_HOST) {
+      installRateLimitScheduler(client);
     }
+    githubClients.set(provider.host, client);
+    registerProvider(provider);
+  }
+}
+
+/**
+ * Register every host authenticated or not as it was when the fixture was
+ * recorded, whatever tokens are around now
+ */
+function registerRecordedHosts(fixture: FixtureFile): void {
+  const getToken = (config: ProviderConfig) =>
+    fixture.authenticatedHosts.includes(config.host) ? REPLAY_TOKEN : null;
+
+  registerGitHubHosts(getGitHubConfigs(), getToken);
+  for (const config of getProviderConfigs()) {
+    if (config.kind !== 'github') {
+      registerProvider(createProvider(config, getToken(config)));
+    }
+  }
+}
+
+/**
+ * Provider for checking a token before it's saved, outside the cache and
+ * fixtures
+ */
+function createProviderWithToken(config: ProviderConfig, token: string): RepoProvider {
+  if (config.kind === 'github') {
+    return createGitHubProvider(createGitHubClient(config, token), config, true);
+  }
+  return createProvider(config, token);
+}
+
+/**
+ * Octokit of a GitHub host, github.com by default
+ */
+function getGitHubClient(host: string = DEFAULT_HOST): OctokitInstance {
+  const client = githubClients.get(getProvider(host).host);
+  if (!client) {
+    throw new Error(`${host} is not a GitHub host`);
+  }
+  return client;
+}
+
+// Reuse cached analyses per repository, turned on in main() with the cache
+let analysisCacheEnabled = false;
+
+interface SearchRunOptions {
+  enableAdvancedStats: boolean;
+  showOnlyActive: boolean;
+  saveResults: boolean;
+  interactiveMode: boolean;
+}
+
+type OwnerKind = 'org' | 'user';
+
+interface SearchOutcome {
+  analyzed: number;
+  results: RepoAnalysis[];
+}
+
+interface SearchPage {
+  page: number;
+  totalPages: number;
+  expectedTotal: number;
+  repos: GitHubRepo[];
+}
+
+/**
+ * Split a comma separated list, dropping empty entries
+ */
+function parseList(input: string | undefined): string[] {
+  if (!input) return [];
+  return input
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Map excluded repository types to search params
+ */
+function getRepoTypeFilters(types: RepoTypeExclusion[]): Partial<SearchParams> {
+  return {
+    excludeArchived: types.includes('archived'),
+    excludeForks: types.includes('forks'),
+    excludeMirrors: types.includes('mirrors'),
+    excludeTemplates: types.includes('templates')
+  };
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'csv', 'html'];
+
+const FILTER_FLAGS = ['topic', 'exclude-topic', 'exclude-org', 'exclude', 'min-size', 'max-size'];
+
+/**
+ * Read search filters from command line flags, null if none were given
+ */
+function getFilterFlags(args: minimist.ParsedArgs): Partial<SearchParams> | null {
+  if (!FILTER_FLAGS.some(flag => args[flag] !== undefined)) {
     return null;
-  } catch {
-    return null;
   }
+
+  return {
+    topics: parseList(args.topic),
+    excludeTopics: parseList(args['exclude-topic']),
+    excludeOrgs: parseList(args['exclude-org']),
+    ...getRepoTypeFilters(parseList(args.exclude) as RepoTypeExclusion[]),
+    minSize: args['min-size'] ? Number(args['min-size']) : null,
+    maxSize: args['max-size'] ? Number(args['max-size']) : null
+  };
+}
+
+/**
+ * Search params from user config, the base for searches that don't prompt
+ */
+function getConfigSearchParams(userConfig: UserConfig): SearchParams {
+  return {
+    keywords: '',
+    languages: [userConfig.language],
+    minStars: userConfig.minStars,
+    maxResults: userConfig.maxResults,
+    license: null,
+    minForks: null,
+    requireGoodFirstIssues: false,
+    sort: userConfig.sort,
+    ranking: userConfig.ranking
+  };
+}
+
+/**
+ * Read every search flag that was given, for merging over defaults
+ */
+function getSearchFlags(args: minimist.ParsedArgs): Partial<SearchParams> {
+  const flags: Partial<SearchParams> = { ...getFilterFlags(args) };
+
+  if (args.lang !== undefined) flags.languages = parseLanguages(args.lang);
+  if (args['min-stars'] !== undefined) flags.minStars = Number(args['min-stars']);
+  if (args.limit !== undefined) flags.maxResults = Number(args.limit);
+  if (args.license !== undefined) flags.license = args.license || null;
+  if (args['min-forks'] !== undefined) flags.minForks = Number(args['min-forks']) || null;
+  if (args.gfi) flags.requireGoodFirstIssues = true;
+  if (args.sort) flags.sort = args.sort;
+  if (args.rank) flags.ranking = args.rank;
+  if (args.host) flags.host = toSearchHost(args.host);
+
+  return flags;
+}
+
+/**
+ * Check search flags, printing what is wrong with them. Issue search
+ * fetches a single page, so it takes a lower limit.
+ */
+function validateSearchFlags(args: minimist.ParsedArgs, maxLimit: number = SEARCH_LIMITS.MAX_RESULTS): boolean {
+  if (args.sort && !isSearchSort(args.sort)) {
+    console.error(chalk.red(`\n❌ Unknown sort "${args.sort}"\n`));
+    console.error(chalk.yellow(`Available: ${SORT_OPTIONS.map(o => o.value).join(', ')}\n`));
+    return false;
+  }
+
+  if (args.host && !isKnownHost(args.host)) {
+    console.error(chalk.red(`\n❌ Unknown host "${args.host}"\n`));
+    console.error(chalk.yellow(`Add it to "providers" in ${CONFIG_FILE}\n`));
+    return false;
+  }
+
+  if (args.rank && !isRankingStrategy(args.rank)) {
+    console.error(chalk.red(`\n❌ Unknown ranking "${args.rank}"\n`));
+    console.error(chalk.yellow(`Available: ${RANKING_OPTIONS.map(o => o.value).join(', ')}\n`));
+    return false;
+  }
+
+  const unknownTypes = parseList(args.exclude).filter(
+    type => !REPO_TYPE_EXCLUSIONS.some(option => option.value === type)
+  );
+  if (unknownTypes.length > 0) {
+    console.error(chalk.red(`\n❌ Unknown repository type "${unknownTypes.join(', ')}"\n`));
+    console.error(chalk.yellow(`Available: ${REPO_TYPE_EXCLUSIONS.map(o => o.value).join(', ')}\n`));
+    return false;
+  }
+
+  for (const flag of ['min-size', 'max-size', 'min-stars', 'min-forks']) {
+    if (args[flag] !== undefined && !(Number(args[flag]) >= 0)) {
+      console.error(chalk.red(`\n❌ --${flag} must be a number >= 0\n`));
+      return false;
+    }
+  }
+
+  if (args['min-size'] && args['max-size'] && Number(args['min-size']) > Number(args['max-size'])) {
+    console.error(chalk.red('\n❌ --min-size must not be larger than --max-size\n'));
+    return false;
+  }
+
+  if (args.limit !== undefined) {
+    const limit = Number(args.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      console.error(chalk.red(`\n❌ --limit must be from 1 to ${maxLimit}\n`));
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Commands built on GitHub-only APIs reject other forges, Enterprise
+ * Server hosts are fine
+ */
+function checkGitHubOnly(args: minimist.ParsedArgs, command: string): boolean {
+  const host = toSearchHost(args.host);
+  if (host && getProvider(host).kind !== 'github') {
+    console.error(chalk.red(`\n❌ ${command} is only available on GitHub and GitHub Enterprise Server\n`));
+    return false;
+  }
+  return true;
 }
 
 /**
  * Get repository by URL
  */
 async function getRepoByUrl(url: string): Promise<GitHubRepo | null> {
-  const parsed = parseGitHubUrl(url);
+  const parsed = parseRepoUrl(url);
   if (!parsed) {
     return null;
   }
 
+  if (isOffline()) {
+    const { values } = await getStaleRepoFields(parsed);
+    if (values.metadata) {
+      return values.metadata;
+    }
+  } else if (analysisCacheEnabled) {
+    const { metadata } = await getCachedRepoFields(parsed);
+    if (metadata) {
+      return metadata;
+    }
+  }
+
   try {
-    const { data } = await withRetry(async () => {
-      return await octokit.rest.repos.get({
-        owner: parsed.owner,
-        repo: parsed.repo
-      });
+    const provider = getProvider(parsed.host);
+    const data = await withRetry(async () => {
+      return await provider.getRepo(parsed.owner, parsed.repo);
     }, 'Fetching repository');
 
-    return data as GitHubRepo;
+    if (analysisCacheEnabled && !isOffline()) {
+      await setCachedRepoFields(parsed, { metadata: data });
+    }
+
+    return data;
   } catch (error) {
     return null;
   }
@@ -137,23 +458,73 @@ function showHelp(): void {
   console.log('  gitpick -a <url>           Analyze specific repository');
   console.log('  gitpick -h, --help         Show this help message\n');
 
+  console.log(chalk.cyan.bold('Scripting (never prompts, results on stdout):'));
+  console.log('  gitpick search <keywords>  Search with flags only');
+  console.log('    --lang <a,b|any>         Languages (default: any)');
+  console.log('    --min-stars <n>          Minimum stars');
+  console.log('    --min-forks <n>          Minimum forks');
+  console.log('    --limit <n>              Number of results (1-1000)');
+  console.log('    --license <key>          License, e.g. mit');
+  console.log('    --gfi                    Require good first issues');
+  console.log('    --only-active            Drop repos without commits in 30 days');
+  console.log('    --advanced               Include PR and issue response stats');
+  console.log('    --format <fmt>           json (default), csv, markdown, html');
+  console.log('    --no-cache               Skip the search and response cache');
+  console.log('  Exit codes: 0 ok, 1 error, 2 no results, 3 rate limited, 4 auth failed\n');
+
+  console.log(chalk.cyan.bold('Issues (tasks across all repos):'));
+  console.log('  gitpick issues [keywords]  Find and rank good first issues');
+  console.log('    --lang <a,b|any>         Repository languages (default: any)');
+  console.log('    --label <a,b>            Labels, any of them (default: "good first issue")');
+  console.log('    --unassigned             Only issues nobody is assigned to');
+  console.log('    --limit <n>              Number of issues (max 100)\n');
+
+  console.log(chalk.cyan.bold('Organizations & Users:'));
+  console.log('  gitpick org <name>         Rank all public repos of an organization');
+  console.log('  gitpick user <login>       Rank all public repos of a user');
+  console.log('    --lang, --min-stars, --limit, --rank filter and order the repos\n');
+
   console.log(chalk.cyan.bold('Quick Templates:'));
   console.log('  gitpick --trending         Trending repos this week');
   console.log('  gitpick --beginner         Perfect for beginners');
   console.log('  gitpick --active           Super active projects');
   console.log('  gitpick --small            Small projects (100-1K stars)');
-  console.log('  gitpick --hacktoberfest    Hacktoberfest-ready repos\n');
+  console.log('  gitpick --hacktoberfest    Hacktoberfest-ready repos');
+  console.log('  Search flags override template values, e.g. gitpick --trending --lang Rust --limit 10\n');
 
   console.log(chalk.cyan.bold('Bookmarks:'));
   console.log('  gitpick --bookmarks        Show all bookmarked repos');
   console.log('  gitpick --bookmark <name>  Open bookmarked repo');
-  console.log('  gitpick -a <url> --save    Analyze and save to bookmarks\n');
+  console.log('  gitpick -a <url> --save    Analyze and save to bookmarks');
+  console.log('  gitpick -a <url> --similar Find repos similar to this one\n');
 
   console.log(chalk.cyan.bold('History:'));
   console.log('  gitpick --history          Show recent searches');
   console.log('  gitpick --repeat <n>       Repeat nth search from history\n');
 
-  console.log(chalk.cyan.bold('GitHub Actions (requires GITHUB_TOKEN):'));
+  console.log(chalk.cyan.bold('Filters:'));
+  console.log('  --topic <a,b>              Require all of these topics');
+  console.log('  --exclude-topic <a,b>      Skip repos with these topics');
+  console.log('  --exclude-org <a,b>        Skip repos owned by these orgs');
+  console.log('  --exclude <types>          Skip archived, forks, mirrors, templates');
+  console.log('  --min-size <kb>            Minimum repository size in KB');
+  console.log('  --max-size <kb>            Maximum repository size in KB\n');
+
+  console.log(chalk.cyan.bold('Sorting & Ranking:'));
+  console.log('  --sort <order>             API order: stars, forks, help-wanted-issues, updated, best-match');
+  console.log('  --rank <strategy>          Ranking: score, stars, freshness, good-first-issues, weighted\n');
+
+  console.log(chalk.cyan.bold('GitLab, Gitea & Forgejo:'));
+  console.log('  --host <host>              Search another forge, e.g. gitlab.com, codeberg.org');
+  console.log('  gitpick -a <url>           Analyze works with URLs of any known host');
+  console.log(`  Tokens: GITLAB_TOKEN, GITEA_TOKEN. More hosts go in "providers" in ${CONFIG_FILE}\n`);
+
+  console.log(chalk.cyan.bold('GitHub Enterprise Server:'));
+  console.log(`  ${GITHUB_ENTERPRISE.HOSTS_ENV}=<hosts>    Comma-separated hosts, or "kind": "github" in "providers"`);
+  console.log('  gitpick --host <host> ...  Search, issues, org and user modes on that host');
+  console.log(`  Token: ${GITHUB_ENTERPRISE.TOKEN_ENV}, or "tokenEnv" per host in ${CONFIG_FILE}\n`);
+
+  console.log(chalk.cyan.bold('Repository Actions (requires a token for the host):'));
   console.log('  gitpick -a <url> --fork    Fork the repository');
   console.log('  gitpick -a <url> --star    Star the repository');
   console.log('  gitpick -a <url> --clone   Clone locally');
@@ -163,6 +534,26 @@ function showHelp(): void {
   console.log('  gitpick --compare <repos>  Compare multiple repos');
   console.log('  Example: gitpick --compare react,vue,svelte\n');
 
+  console.log(chalk.cyan.bold('Authentication:'));
+  console.log('  gitpick auth login         Save a token, checked first (--host for other hosts)');
+  console.log('  gitpick auth status        Account and scopes of each token found');
+  console.log('  gitpick auth logout        Remove the saved token');
+  console.log('  Tokens are looked up in the environment, the saved tokens, gh CLI and ~/.netrc\n');
+
+  console.log(chalk.cyan.bold('Cache:'));
+  console.log('  gitpick cache stats        Location, size and entry counts');
+  console.log('  gitpick cache ls           List entries and what they hold');
+  console.log('  gitpick cache prune        Remove expired entries');
+  console.log('  gitpick cache clear        Remove everything');
+  console.log('  --offline                  Use cached data only, also automatic when GitHub is unreachable\n');
+
+  console.log(chalk.cyan.bold('Fixtures:'));
+  console.log('  --record <file>            Save every API request and response to a file');
+  console.log('  --replay <file>            Serve recorded responses, no network needed\n');
+
+  console.log(chalk.cyan.bold('Rate Limits:'));
+  console.log('  gitpick rate               Show remaining core, search and GraphQL requests\n');
+
   console.log(chalk.cyan.bold('Features:'));
   console.log('  🔍 Smart search with advanced filtering');
   console.log('  📊 Activity scoring with visual indicators');
@@ -172,8 +563,8 @@ function showHelp(): void {
   console.log('  💾 Bookmarks and search history');
   console.log('  🔄 GitHub integration (fork, star, clone)\n');
 
-  console.log(chalk.yellow('Set GITHUB_TOKEN for higher rate limits:'));
-  console.log(chalk.gray('  export GITHUB_TOKEN=your_token_here\n'));
+  console.log(chalk.yellow('Sign in for higher rate limits:'));
+  console.log(chalk.gray('  gitpick auth login    or    export GITHUB_TOKEN=your_token_here\n'));
 }
 
 /**
@@ -187,6 +578,7 @@ async function analyzeMode(
     star?: boolean;
     clone?: boolean;
     watch?: boolean;
+    similar?: boolean;
   } = {}
 ): Promise<void> {
   console.clear();
@@ -204,12 +596,16 @@ async function analyzeMode(
       console.log(chalk.yellow('\nValid URL formats:'));
       console.log('  - https://github.com/owner/repo');
       console.log('  - github.com/owner/repo');
-      console.log('  - owner/repo\n');
+      console.log('  - owner/repo');
+      console.log('  - https://gitlab.com/group/project');
+      console.log(`  - URLs of hosts added to "providers" in ${CONFIG_FILE} or to ${GITHUB_ENTERPRISE.HOSTS_ENV}\n`);
       return;
     }
 
     spinner.text = `Analyzing ${repo.full_name}...`;
 
+    const ref = getRepoRef(repo);
+    const provider = getProvider(ref.host);
     const analysis = await analyzeRepo(repo, null, true);
 
     spinner.succeed(chalk.green('Analysis complete!\n'));
@@ -223,24 +619,23 @@ async function analyzeMode(
       console.log(chalk.yellow('\n⭐ This repository is in your bookmarks\n'));
     }
 
-    // Handle GitHub actions
+    // Handle repository actions
     if (options.fork || options.star || options.clone || options.watch) {
-      const parsed = parseGitHubUrl(url);
-      if (parsed && process.env.GITHUB_TOKEN) {
-        console.log(chalk.cyan('\n🔄 Performing GitHub actions...\n'));
+      if (provider.authenticated) {
+        console.log(chalk.cyan(`\n🔄 Performing actions on ${provider.host}...\n`));
 
         if (options.fork) {
-          const result = await forkRepository(octokit, parsed.owner, parsed.repo);
+          const result = await forkRepository(provider, ref.owner, ref.repo);
           console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
         }
 
         if (options.star) {
-          const result = await starRepository(octokit, parsed.owner, parsed.repo);
+          const result = await starRepository(provider, ref.owner, ref.repo);
           console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
         }
 
         if (options.watch) {
-          const result = await watchRepository(octokit, parsed.owner, parsed.repo);
+          const result = await watchRepository(provider, ref.owner, ref.repo);
           console.log(result.success ? chalk.green(`✓ ${result.message}`) : chalk.red(`✗ ${result.message}`));
         }
 
@@ -250,8 +645,8 @@ async function analyzeMode(
         }
 
         console.log();
-      } else if (!process.env.GITHUB_TOKEN) {
-        console.log(chalk.yellow('\n⚠️  GITHUB_TOKEN required for GitHub actions\n'));
+      } else {
+        console.log(chalk.yellow(`\n⚠️  ${provider.tokenEnv} required for repository actions\n`));
       }
     }
 
@@ -265,25 +660,29 @@ async function analyzeMode(
       }
     }
 
+    // Jump straight to neighbors
+    if (options.similar) {
+      await findSimilarRepos(analysis);
+      return;
+    }
+
     // Interactive menu if no actions specified
     if (!options.fork && !options.star && !options.clone && !options.watch && !options.save) {
       const choices = [
         { name: '🌐 Open repository in browser', value: 'open' },
         { name: '💡 Open good first issues page', value: 'issues' },
+        { name: '🧭 Find similar repositories', value: 'similar' },
       ];
 
       if (!bookmarked) {
         choices.push({ name: '💾 Save to bookmarks', value: 'save' });
       }
 
-      if (process.env.GITHUB_TOKEN) {
-        const parsed = parseGitHubUrl(url);
-        if (parsed) {
-          const isStarred = await checkIfStarred(octokit, parsed.owner, parsed.repo);
-          choices.push({ name: isStarred ? '⭐ Unstar repository' : '⭐ Star repository', value: 'star' });
-          choices.push({ name: '🔱 Fork repository', value: 'fork' });
-          choices.push({ name: '📥 Clone locally', value: 'clone' });
-        }
+      if (provider.authenticated) {
+        const isStarred = await checkIfStarred(provider, ref.owner, ref.repo);
+        choices.push({ name: isStarred ? '⭐ Unstar repository' : '⭐ Star repository', value: 'star' });
+        choices.push({ name: '🔱 Fork repository', value: 'fork' });
+        choices.push({ name: '📥 Clone locally', value: 'clone' });
       }
 
       choices.push({ name: '← Exit', value: 'exit' });
@@ -301,9 +700,10 @@ async function analyzeMode(
         await open(analysis.url);
         console.log(chalk.green(`\n✅ Opened ${analysis.name} in browser\n`));
       } else if (action === 'issues') {
-        const issuesUrl = `${analysis.url}/issues?q=is%3Aissue+is%3Aopen+label%3A%22good+first+issue%22`;
-        await open(issuesUrl);
+        await open(provider.getIssuesUrl(analysis.url, DEFAULT_ISSUE_LABELS[0]));
         console.log(chalk.green(`\n✅ Opened good first issues in browser\n`));
+      } else if (action === 'similar') {
+        await findSimilarRepos(analysis);
       } else if (action === 'save') {
         try {
           await addBookmark(analysis);
@@ -311,23 +711,18 @@ async function analyzeMode(
         } catch (error) {
           console.log(chalk.yellow(`\n⚠️  ${(error as Error).message}\n`));
         }
-      } else if (action === 'star' || action === 'fork' || action === 'clone') {
-        const parsed = parseGitHubUrl(url);
-        if (parsed) {
-          if (action === 'star') {
-            const isStarred = await checkIfStarred(octokit, parsed.owner, parsed.repo);
-            const result = isStarred
-              ? await starRepository(octokit, parsed.owner, parsed.repo)
-              : await starRepository(octokit, parsed.owner, parsed.repo);
-            console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
-          } else if (action === 'fork') {
-            const result = await forkRepository(octokit, parsed.owner, parsed.repo);
-            console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
-          } else if (action === 'clone') {
-            const result = await cloneRepository(analysis.url);
-            console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
-          }
-        }
+      } else if (action === 'star') {
+        const isStarred = await checkIfStarred(provider, ref.owner, ref.repo);
+        const result = isStarred
+          ? await unstarRepository(provider, ref.owner, ref.repo)
+          : await starRepository(provider, ref.owner, ref.repo);
+        console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
+      } else if (action === 'fork') {
+        const result = await forkRepository(provider, ref.owner, ref.repo);
+        console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
+      } else if (action === 'clone') {
+        const result = await cloneRepository(analysis.url);
+        console.log(result.success ? chalk.green(`\n✅ ${result.message}\n`) : chalk.red(`\n❌ ${result.message}\n`));
       }
     }
 
@@ -338,148 +733,279 @@ async function analyzeMode(
 }
 
 /**
- * Search repositories
+ * Search repositories page by page, yielding each page as soon as it loads.
+ * Repositories already returned by an earlier page are dropped.
  */
-async function searchRepos(searchParams: SearchParams): Promise<GitHubRepo[]> {
-  const {
-    keywords,
-    language,
-    minStars = 100,
-    maxResults = 10,
-    license = null,
-    minForks = null,
-    requireGoodFirstIssues = true
-  } = searchParams;
-
-  let query = `${keywords} language:${language} stars:>${minStars}`;
-
-  if (requireGoodFirstIssues) {
-    query += ' good-first-issues:>1';
-  }
-
-  if (license) {
-    query += ` license:${license}`;
-  }
-
-  if (minForks) {
-    query += ` forks:>${minForks}`;
-  }
-
-  try {
-    const result = await withRetry(async () => {
-      const { data } = await octokit.rest.search.repos({
-        q: query,
-        sort: 'updated',
-        order: 'desc',
-        per_page: maxResults
-      });
-      return data.items as GitHubRepo[];
-    }, 'Searching repositories');
-
-    return result;
-  } catch (error) {
-    const apiError = error as { status?: number };
-    if (apiError.status === 403) {
-      console.log(chalk.red('\n❌ Rate limit exceeded. Set GITHUB_TOKEN to increase limit:'));
-      console.log(chalk.yellow('export GITHUB_TOKEN=your_token_here\n'));
+async function* searchReposPaged(searchParams: SearchParams): AsyncGenerator<SearchPage> {
+  const provider = getProvider(searchParams.host);
+  const limit = Math.min(searchParams.maxResults || 10, SEARCH_LIMITS.MAX_RESULTS);
+  const perPage = Math.min(limit, provider.pageSize);
+  const seen = new Set<string>();
+  let totalPages = Math.ceil(limit / perPage);
+  let collected = 0;
+
+  for (let page = 1; page <= totalPages && collected < limit; page++) {
+    const data = await withRetry(async () => {
+      return await provider.searchRepos(searchParams, page, perPage);
+    }, `Searching repositories (page ${page})`);
+
+    // Never request more pages than the search actually has
+    const available = Math.min(data.totalCount ?? limit, limit);
+    totalPages = Math.min(totalPages, Math.max(Math.ceil(available / perPage), 1));
+
+    const repos = data.repos
+      .filter(repo => {
+        if (seen.has(repo.full_name)) return false;
+        seen.add(repo.full_name);
+        return true;
+      })
+      .slice(0, limit - collected);
+
+    collected += repos.length;
+
+    yield {
+      page,
+      totalPages,
+      expectedTotal: available,
+      repos
+    };
+
+    if (data.fetched < perPage) {
+      break;
     }
-    throw error;
   }
 }
 
+/**
+ * Wrap cached search results as a single search page
+ */
+async function* cachedSearchPages(repos: GitHubRepo[]): AsyncGenerator<SearchPage> {
+  yield {
+    page: 1,
+    totalPages: 1,
+    expectedTotal: repos.length,
+    repos
+  };
+}
+
 /**
  * Get good first issues for repository
  */
 async function getGoodFirstIssues(
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<GoodFirstIssue[]> {
-  try {
-    const data = await withRetry(async () => {
-      const { data } = await octokit.rest.issues.listForRepo({
-        owner,
-        repo,
-        labels: 'good first issue,help wanted',
-        state: 'open',
-        per_page: 5
-      });
-      return data as GoodFirstIssue[];
-    }, 'Fetching good first issues');
+  return await withRetry(async () => {
+    // Same labels as the GraphQL path, so both report the same issues
+    return await provider.listGoodFirstIssues(owner, repo, DEFAULT_ISSUE_LABELS, 5);
+  }, 'Fetching good first issues');
+}
 
-    return data;
-  } catch (error) {
-    return [];
+/**
+ * Check for CONTRIBUTING.md
+ */
+async function hasContributingGuide(provider: RepoProvider, owner: string, repo: string): Promise<boolean> {
+  return await withRetry(async () => {
+    return await provider.hasFile(owner, repo, 'CONTRIBUTING.md');
+  }, 'Checking for CONTRIBUTING.md');
+}
+
+/**
+ * Fetch last commit, good first issues and community files over REST,
+ * skipping the parts that are cached. Parts that fail are left empty and
+ * listed in failures, so they're neither cached nor mistaken for missing.
+ */
+async function fetchRepoDetails(
+  provider: RepoProvider,
+  owner: string,
+  name: string,
+  cached: Partial<RepoCacheValues> = {}
+): Promise<RepoDetails> {
+  // Get last commit
+  const lastCommit = async (): Promise<string | null> => {
+    return await withRetry(async () => {
+      return await provider.getLastCommitDate(owner, name);
+    }, 'Fetching last commit');
+  };
+
+  const communityFiles = async (): Promise<CommunityFiles> => {
+    const [hasContributing, hasCodeOfConductFile] = await Promise.all([
+      hasContributingGuide(provider, owner, name),
+      hasCodeOfConduct(provider, owner, name)
+    ]);
+    return { hasContributing, hasCodeOfConduct: hasCodeOfConductFile };
+  };
+
+  // Issues, CONTRIBUTING.md and CODE_OF_CONDUCT.md are independent of each other
+  const [lastCommitResult, issuesResult, communityResult] = await Promise.allSettled([
+    cached.lastCommit ?? lastCommit(),
+    cached.goodFirstIssues ?? getGoodFirstIssues(provider, owner, name),
+    cached.communityFiles ?? communityFiles()
+  ]);
+
+  const failures: RepoDetailFailures = {};
+  if (lastCommitResult.status === 'rejected') {
+    failures.lastCommit = getErrorMessage(lastCommitResult.reason);
   }
+  if (issuesResult.status === 'rejected') {
+    failures.goodFirstIssues = getErrorMessage(issuesResult.reason);
+  }
+  if (communityResult.status === 'rejected') {
+    failures.communityFiles = getErrorMessage(communityResult.reason);
+  }
+
+  const community = communityResult.status === 'fulfilled'
+    ? communityResult.value
+    : { hasContributing: false, hasCodeOfConduct: false };
+
+  return {
+    lastCommitDate: lastCommitResult.status === 'fulfilled' ? lastCommitResult.value : null,
+    goodFirstIssues: issuesResult.status === 'fulfilled' ? issuesResult.value : [],
+    ...community,
+    ...(Object.keys(failures).length > 0 && { failures })
+  };
 }
 
 /**
- * Check for CONTRIBUTING.md
+ * GraphQL needs a token, without one everything goes over REST
+ */
+function isGraphQLAvailable(): boolean {
+  return getProvider().authenticated;
+}
+
+/**
+ * Fetch metadata and details for several repositories in batched GraphQL
+ * queries. Returns an empty map when GraphQL is unavailable or fails, so
+ * callers fall back to REST per repository. Only github.com repositories
+ * are batched.
  */
-async function hasContributingGuide(owner: string, repo: string): Promise<boolean> {
+async function fetchRepoBatch(refs: RepoRef[]): Promise<Map<string, RepoBatchEntry>> {
+  const githubRefs = refs.filter(ref => (ref.host ?? DEFAULT_HOST) === DEFAULT_HOST);
+  if (!isGraphQLAvailable() || isOffline() || githubRefs.length === 0) {
+    return new Map();
+  }
+
   try {
-    await withRetry(async () => {
-      await octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path: 'CONTRIBUTING.md'
-      });
-    }, 'Checking for CONTRIBUTING.md');
+    return await fetchReposGraphQL(getGitHubClient(), githubRefs);
+  } catch (error) {
+    return new Map();
+  }
+}
+
+/**
+ * Whether any of last commit, good first issues or community files is
+ * missing from the analysis cache
+ */
+async function needsDetails(repo: GitHubRepo): Promise<boolean> {
+  if (!analysisCacheEnabled) {
     return true;
-  } catch {
-    return false;
   }
+
+  const cached = await getCachedRepoFields(getRepoRef(repo));
+  return cached.lastCommit === undefined
+    || cached.goodFirstIssues === undefined
+    || cached.communityFiles === undefined;
+}
+
+/**
+ * Prefetch several repositories given as URLs or owner/repo names
+ */
+async function prefetchRepos(urls: string[]): Promise<Map<string, RepoBatchEntry>> {
+  const refs = urls
+    .map(url => parseRepoUrl(url))
+    .filter((ref): ref is RepoRef => ref !== null);
+
+  return await fetchRepoBatch(refs);
+}
+
+/**
+ * Take a repository from a prefetched batch, or fetch it over REST when missing
+ */
+async function getPrefetchedRepo(
+  batch: Map<string, RepoBatchEntry>,
+  url: string
+): Promise<{ repo: GitHubRepo; details?: RepoDetails } | null> {
+  const parsed = parseRepoUrl(url);
+  const entry = parsed?.host === DEFAULT_HOST ? batch.get(repoKey(parsed.owner, parsed.repo)) : undefined;
+  if (entry) {
+    return entry;
+  }
+
+  const repo = await getRepoByUrl(url);
+  return repo ? { repo } : null;
 }
 
 /**
- * Analyze repository
+ * Analyze repository. Details prefetched over GraphQL skip the REST calls.
  */
 async function analyzeRepo(
   repo: GitHubRepo,
   progressBar: cliProgress.SingleBar | null,
-  enableAdvancedStats: boolean = false
+  enableAdvancedStats: boolean = false,
+  prefetched?: RepoDetails
 ): Promise<RepoAnalysis> {
-  const owner = repo.owner.login;
-  const name = repo.name;
+  const ref = getRepoRef(repo);
+  const provider = getProvider(ref.host);
+  const owner = ref.owner;
+  const name = ref.repo;
 
   if (progressBar) {
     progressBar.update({ task: `Analyzing ${repo.full_name}...` });
   }
 
-  // Get last commit
-  let lastCommitDays: number | null = null;
-  try {
-    const commits = await withRetry(async () => {
-      const { data: commits } = await octokit.rest.repos.listCommits({
-        owner,
-        repo: name,
-        per_page: 1
-      });
-      return commits;
-    }, 'Fetching last commit');
+  if (isOffline()) {
+    return await analyzeCachedRepo(repo, enableAdvancedStats);
+  }
 
-    if (commits.length > 0) {
-      const lastCommitDate = new Date(commits[0].commit.author?.date || Date.now());
-      lastCommitDays = Math.floor((Date.now() - lastCommitDate.getTime()) / (1000 * 60 * 60 * 24));
-    }
-  } catch (error) {
-    lastCommitDays = null;
+  const errors: string[] = [];
+  const cached = analysisCacheEnabled ? await getCachedRepoFields(ref) : {};
+
+  // Details, contributors and commit activity don't depend on each other, fetch them together
+  const [detailsResult, contributorsResult, activityResult] = await Promise.allSettled([
+    prefetched ? Promise.resolve(prefetched) : fetchRepoDetails(provider, owner, name, cached),
+    cached.contributorStats ?? getContributorStats(provider, owner, name),
+    cached.commitActivity ?? getCommitActivity(provider, owner, name)
+  ]);
+
+  const details: RepoDetails = detailsResult.status === 'fulfilled'
+    ? detailsResult.value
+    : { lastCommitDate: null, goodFirstIssues: [], hasContributing: false, hasCodeOfConduct: false };
+  if (detailsResult.status === 'rejected') {
+    errors.push(`details: ${getErrorMessage(detailsResult.reason)}`);
+  }
+  const failures = details.failures ?? {};
+  if (failures.lastCommit) {
+    errors.push(`last commit: ${failures.lastCommit}`);
+  }
+  if (failures.goodFirstIssues) {
+    errors.push(`good first issues: ${failures.goodFirstIssues}`);
+  }
+  if (failures.communityFiles) {
+    errors.push(`community files: ${failures.communityFiles}`);
   }
 
-  // Get issues
-  const issues = await getGoodFirstIssues(owner, name);
+  let contributorStats: ContributorStats | null = null;
+  if (contributorsResult.status === 'fulfilled') {
+    contributorStats = contributorsResult.value;
+  } else {
+    errors.push(`contributors: ${getErrorMessage(contributorsResult.reason)}`);
+  }
 
-  // Check CONTRIBUTING.md
-  const hasContributing = await hasContributingGuide(owner, name);
+  let commitActivity: number[] | null = null;
+  if (activityResult.status === 'fulfilled') {
+    commitActivity = activityResult.value;
+  } else {
+    errors.push(`commit activity: ${getErrorMessage(activityResult.reason)}`);
+  }
 
-  // Check CODE_OF_CONDUCT.md
-  const hasCodeOfConductFile = await hasCodeOfConduct(octokit, owner, name);
+  const lastCommitDays = details.lastCommitDate
+    ? Math.floor((getNow().getTime() - new Date(details.lastCommitDate).getTime()) / (1000 * 60 * 60 * 24))
+    : null;
 
   // Get license
   const license = getLicense(repo);
 
-  // Get contributors count
-  const contributorsCount = await getContributorsCount(octokit, owner, name);
-
   const analysis: RepoAnalysis = {
     name: repo.full_name,
     description: repo.description || 'No description',
@@ -490,21 +1016,79 @@ async function analyzeRepo(
     url: repo.html_url,
     openIssues: repo.open_issues_count,
     forks: repo.forks_count,
-    hasContributing,
-    hasCodeOfConduct: hasCodeOfConductFile,
+    hasContributing: details.hasContributing,
+    hasCodeOfConduct: details.hasCodeOfConduct,
     license,
-    contributorsCount,
-    goodFirstIssues: issues,
+    contributorsCount: contributorStats?.count ?? null,
+    busFactor: contributorStats?.busFactor ?? null,
+    commitActivity,
+    goodFirstIssues: details.goodFirstIssues,
     topics: repo.topics || []
   };
 
   // Advanced statistics (optional, takes more API calls)
-  if (enableAdvancedStats) {
-    const prStats = await getPRStats(octokit, owner, name);
-    const issueStats = await getIssueResponseStats(octokit, owner, name);
+  let stats: RepoStats | undefined;
+  if (enableAdvancedStats && cached.stats) {
+    analysis.prStats = cached.stats.prStats;
+    analysis.issueResponseStats = cached.stats.issueResponseStats;
+  } else if (enableAdvancedStats) {
+    const [prStats, issueStats] = await Promise.allSettled([
+      getPRStats(provider, owner, name),
+      getIssueResponseStats(provider, owner, name)
+    ]);
+
+    if (prStats.status === 'fulfilled') {
+      analysis.prStats = prStats.value;
+    } else {
+      errors.push(`PR stats: ${getErrorMessage(prStats.reason)}`);
+    }
+
+    if (issueStats.status === 'fulfilled') {
+      analysis.issueResponseStats = issueStats.value;
+    } else {
+      errors.push(`issue stats: ${getErrorMessage(issueStats.reason)}`);
+    }
+
+    if (prStats.status === 'fulfilled' && issueStats.status === 'fulfilled') {
+      stats = { prStats: prStats.value, issueResponseStats: issueStats.value };
+    }
+  }
+
+  // Store what was fetched now, cached parts keep their own timestamps.
+  // Failed lookups are not cached.
+  if (analysisCacheEnabled) {
+    // Prefetched details are all new, otherwise only the parts that weren't cached
+    const known = prefetched ? {} : cached;
+    const fresh: Partial<RepoCacheValues> = { stats };
+
+    if (detailsResult.status === 'fulfilled') {
+      if (known.lastCommit === undefined && details.lastCommitDate !== null) {
+        fresh.lastCommit = details.lastCommitDate;
+      }
+      if (known.goodFirstIssues === undefined && !failures.goodFirstIssues) {
+        fresh.goodFirstIssues = details.goodFirstIssues;
+      }
+      if (known.communityFiles === undefined && !failures.communityFiles) {
+        fresh.communityFiles = {
+          hasContributing: details.hasContributing,
+          hasCodeOfConduct: details.hasCodeOfConduct
+        };
+      }
+    }
+
+    if (cached.contributorStats === undefined && contributorStats !== null) {
+      fresh.contributorStats = contributorStats;
+    }
+
+    if (cached.commitActivity === undefined && commitActivity !== null) {
+      fresh.commitActivity = commitActivity;
+    }
+
+    await setCachedRepoFields(ref, fresh);
+  }
 
-    analysis.prStats = prStats;
-    analysis.issueResponseStats = issueStats;
+  if (errors.length > 0) {
+    analysis.errors = errors;
   }
 
   // Calculate overall score
@@ -514,19 +1098,156 @@ async function analyzeRepo(
 }
 
 /**
- * Display results with enhanced visuals
+ * Analysis with only what the repository metadata tells, before any score
  */
-function displayRepo(analysis: RepoAnalysis, index: number): void {
-  console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
+function createMetadataAnalysis(repo: GitHubRepo): RepoAnalysis {
+  return {
+    name: repo.full_name,
+    description: repo.description || 'No description',
+    stars: repo.stargazers_count,
+    language: repo.language,
+    lastActivity: null,
+    active: false,
+    url: repo.html_url,
+    openIssues: repo.open_issues_count,
+    forks: repo.forks_count,
+    hasContributing: false,
+    hasCodeOfConduct: false,
+    license: getLicense(repo),
+    contributorsCount: null,
+    busFactor: null,
+    commitActivity: null,
+    goodFirstIssues: [],
+    topics: repo.topics || []
+  };
+}
 
-  // Header with score and badge
-  let header = `\n${index}. 📦 ${analysis.name}`;
+/**
+ * Analysis from search metadata alone, for repositories whose analysis failed
+ */
+function createPartialAnalysis(repo: GitHubRepo, error: unknown): RepoAnalysis {
+  const analysis = createMetadataAnalysis(repo);
+  analysis.errors = [getErrorMessage(error)];
+  analysis.activityScore = calculateOverallScore(analysis);
 
-  // Add activity score with colored bar
-  if (analysis.activityScore) {
-    const scoreColor = getScoreColor(analysis.activityScore);
-    const scoreBar = createColoredBar(analysis.activityScore, 10);
-    header += ` ${scoreBar} ${scoreColor.bold(`${analysis.activityScore.toFixed(1)}/10`)}`;
+  return analysis;
+}
+
+/**
+ * Offline analysis from cached data of any age. Parts that were never
+ * cached are listed as unknown instead of being fetched.
+ */
+async function analyzeCachedRepo(repo: GitHubRepo, enableAdvancedStats: boolean): Promise<RepoAnalysis> {
+  const { values, fetchedAt } = await getStaleRepoFields(getRepoRef(repo));
+  const analysis = createMetadataAnalysis(repo);
+  const unknownFields: RepoCacheField[] = [];
+
+  if (values.lastCommit) {
+    const lastCommitDays = Math.floor((getNow().getTime() - new Date(values.lastCommit).getTime()) / (1000 * 60 * 60 * 24));
+    analysis.lastActivity = lastCommitDays;
+    analysis.active = lastCommitDays < 30;
+  } else {
+    unknownFields.push('lastCommit');
+  }
+
+  if (values.goodFirstIssues) {
+    analysis.goodFirstIssues = values.goodFirstIssues;
+  } else {
+    unknownFields.push('goodFirstIssues');
+  }
+
+  if (values.communityFiles) {
+    analysis.hasContributing = values.communityFiles.hasContributing;
+    analysis.hasCodeOfConduct = values.communityFiles.hasCodeOfConduct;
+  } else {
+    unknownFields.push('communityFiles');
+  }
+
+  if (values.contributorStats) {
+    analysis.contributorsCount = values.contributorStats.count;
+    analysis.busFactor = values.contributorStats.busFactor;
+  } else {
+    unknownFields.push('contributorStats');
+  }
+
+  if (values.commitActivity) {
+    analysis.commitActivity = values.commitActivity;
+  } else {
+    unknownFields.push('commitActivity');
+  }
+
+  if (enableAdvancedStats && values.stats) {
+    analysis.prStats = values.stats.prStats;
+    analysis.issueResponseStats = values.stats.issueResponseStats;
+  } else if (enableAdvancedStats) {
+    unknownFields.push('stats');
+  }
+
+  analysis.dataAge = fetchedAt === null ? undefined : Date.now() - fetchedAt;
+  if (unknownFields.length > 0) {
+    analysis.unknownFields = unknownFields;
+  }
+
+  analysis.activityScore = calculateOverallScore(analysis);
+
+  return analysis;
+}
+
+/**
+ * Analyze repositories in parallel, at most `concurrency` at a time.
+ * Results keep the input order and a failing repository yields a partial
+ * analysis instead of stopping the rest.
+ */
+async function analyzeRepos(
+  repos: Array<{ repo: GitHubRepo; details?: RepoDetails }>,
+  progressBar: cliProgress.SingleBar | null,
+  enableAdvancedStats: boolean,
+  concurrency: number,
+  onDone?: (analysis: RepoAnalysis) => void
+): Promise<RepoAnalysis[]> {
+  return await mapWithConcurrency(repos, concurrency, async ({ repo, details }) => {
+    let analysis: RepoAnalysis;
+    try {
+      analysis = await analyzeRepo(repo, progressBar, enableAdvancedStats, details);
+    } catch (error) {
+      analysis = createPartialAnalysis(repo, error);
+    }
+    onDone?.(analysis);
+    return analysis;
+  });
+}
+
+/**
+ * Hours as "5.2h", or days once past two days
+ */
+function formatHours(hours: number): string {
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * One line of merge and review figures for a group of pull requests
+ */
+function formatPRGroup(group: PRGroupStats): string {
+  const review = group.medianFirstReview !== null ? formatHours(group.medianFirstReview) : 'none';
+  const merge = group.medianMergeTime !== null ? `${group.medianMergeTime}d` : 'none';
+  return `${group.mergeRate}% merged, ${group.closedUnmergedRate}% closed unmerged, ` +
+    `median review ${review}, median merge ${merge} (${group.count} PRs)`;
+}
+
+/**
+ * Display results with enhanced visuals
+ */
+function displayRepo(analysis: RepoAnalysis, index: number): void {
+  console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
+
+  // Header with score and badge
+  let header = `\n${index}. 📦 ${analysis.name}`;
+
+  // Add activity score with colored bar
+  if (analysis.activityScore) {
+    const scoreColor = getScoreColor(analysis.activityScore);
+    const scoreBar = createColoredBar(analysis.activityScore, 10);
+    header += ` ${scoreBar} ${scoreColor.bold(`${analysis.activityScore.toFixed(1)}/10`)}`;
   }
 
   // Add badges for special conditions
@@ -540,12 +1261,20 @@ function displayRepo(analysis: RepoAnalysis, index: number): void {
   if (analysis.stars >= 10000) {
     badges.push(createBadge('⭐ POPULAR', 'yellow'));
   }
+  if (isOffline()) {
+    badges.push(createBadge('📴 STALE', 'magenta'));
+  }
 
   console.log(chalk.green.bold(header));
   if (badges.length > 0) {
     console.log(`   ${badges.join(' ')}`);
   }
   console.log(chalk.gray(`   ${analysis.description}`));
+  if (isOffline()) {
+    console.log(chalk.magenta(`   Cached data${analysis.dataAge !== undefined ? ` from ${formatAge(analysis.dataAge)} ago` : ', details never fetched'}`));
+  }
+
+  const unknown = new Set(analysis.unknownFields || []);
 
   // Metrics with improved formatting
   const metrics: string[] = [];
@@ -560,6 +1289,8 @@ function displayRepo(analysis: RepoAnalysis, index: number): void {
   if (analysis.lastActivity !== null) {
     const activityViz = visualizeActivity(analysis.lastActivity);
     metrics.push(activityViz);
+  } else if (unknown.has('lastCommit')) {
+    metrics.push(chalk.gray('🕒 activity unknown'));
   }
 
   metrics.push(`🐛 ${analysis.openIssues} issues`);
@@ -568,20 +1299,36 @@ function displayRepo(analysis: RepoAnalysis, index: number): void {
     metrics.push(`🔱 ${formatLargeNumber(analysis.forks)} forks`);
   }
 
-  if (analysis.contributorsCount) {
-    metrics.push(`👥 ${analysis.contributorsCount} contributors`);
+  if (analysis.contributorsCount !== null) {
+    metrics.push(`👥 ${formatLargeNumber(analysis.contributorsCount)} contributors`);
+  } else if (unknown.has('contributorStats')) {
+    metrics.push(chalk.gray('👥 contributors unknown'));
   }
 
   console.log(`\n   ${metrics.join(' | ')}`);
 
+  // Without any contributor data the lookup failed or was never cached
+  if (analysis.contributorsCount !== null || analysis.busFactor !== null) {
+    console.log(`   ${visualizeBusFactor(analysis.busFactor)}`);
+  }
+  if (analysis.commitActivity) {
+    console.log(`   ${visualizeCommitActivity(analysis.commitActivity, getActivityTrend(analysis.commitActivity))}`);
+  } else if (unknown.has('commitActivity')) {
+    console.log(chalk.gray('   📈 commit activity unknown'));
+  }
+
   // Community Health Score
   console.log(`\n   Community Health:`);
-  console.log(`   ${createHealthIndicator(
-    analysis.hasContributing,
-    analysis.hasCodeOfConduct,
-    analysis.license !== null,
-    analysis.goodFirstIssues.length
-  )}`);
+  if (unknown.has('communityFiles') || unknown.has('goodFirstIssues')) {
+    console.log(chalk.gray('   unknown, not cached'));
+  } else {
+    console.log(`   ${createHealthIndicator(
+      analysis.hasContributing,
+      analysis.hasCodeOfConduct,
+      analysis.license !== null,
+      analysis.goodFirstIssues.length
+    )}`);
+  }
 
   // Features
   const features: string[] = [];
@@ -603,9 +1350,26 @@ function displayRepo(analysis: RepoAnalysis, index: number): void {
   if (analysis.prStats && analysis.prStats.avgMergeTime !== null) {
     console.log(chalk.blue(`   📊 Avg PR merge time: ${analysis.prStats.avgMergeTime} days`));
   }
+  // Stats cached before the split by author have neither group
+  if (analysis.prStats?.newcomers) {
+    console.log(chalk.blue(`   🌱 Newcomer PRs: ${formatPRGroup(analysis.prStats.newcomers)}`));
+  }
+  if (analysis.prStats?.maintainers) {
+    console.log(chalk.gray(`   🛠️  Maintainer PRs: ${formatPRGroup(analysis.prStats.maintainers)}`));
+  }
 
-  if (analysis.issueResponseStats && analysis.issueResponseStats.avgResponseTime !== null) {
-    console.log(chalk.blue(`   ⏱️  Avg issue response: ${analysis.issueResponseStats.avgResponseTime} hours (${analysis.issueResponseStats.responseRate}% response rate)`));
+  const issueStats = analysis.issueResponseStats;
+  // Stats cached before the median and p90 were added only have the mean
+  if (issueStats && issueStats.medianResponseTime != null && issueStats.p90ResponseTime != null) {
+    console.log(chalk.blue(
+      `   ⏱️  Maintainer response: median ${formatHours(issueStats.medianResponseTime)}, ` +
+      `p90 ${formatHours(issueStats.p90ResponseTime)}, mean ${formatHours(issueStats.avgResponseTime!)} ` +
+      `(${issueStats.responseRate}% of ${issueStats.sampledIssues} newcomer issues answered)`
+    ));
+  } else if (issueStats && issueStats.avgResponseTime !== null) {
+    console.log(chalk.blue(`   ⏱️  Avg issue response: ${issueStats.avgResponseTime} hours (${issueStats.responseRate}% response rate)`));
+  } else if (issueStats && issueStats.sampledIssues > 0) {
+    console.log(chalk.yellow(`   ⏱️  No maintainer response on ${issueStats.sampledIssues} recent newcomer issues`));
   }
 
   // Topics/Tags
@@ -613,6 +1377,10 @@ function displayRepo(analysis: RepoAnalysis, index: number): void {
     console.log(chalk.magenta(`   🏷️  ${analysis.topics.slice(0, 5).join(', ')}`));
   }
 
+  if (analysis.errors && analysis.errors.length > 0) {
+    console.log(chalk.yellow(`   ⚠️  Partial analysis: ${analysis.errors.join('; ')}`));
+  }
+
   // Good first issues
   if (analysis.goodFirstIssues.length > 0) {
     console.log(chalk.yellow.bold(`\n   💡 Good First Issues (${analysis.goodFirstIssues.length}):`));
@@ -667,6 +1435,7 @@ async function interactiveMode(results: RepoAnalysis[]): Promise<void> {
           { name: '🌐 Open repository in browser', value: 'open-repo' as const },
           { name: '💡 Open good first issues page', value: 'open-issues' as const },
           { name: '📋 Show full details', value: 'details' as const },
+          { name: '🧭 Find similar repositories', value: 'similar' as const },
           { name: '← Go back', value: 'back' as const }
         ]
       }
@@ -676,7 +1445,7 @@ async function interactiveMode(results: RepoAnalysis[]): Promise<void> {
       await open(selectedRepo.url);
       console.log(chalk.green(`\n✅ Opened ${selectedRepo.name} in browser\n`));
     } else if (repoAction === 'open-issues') {
-      const issuesUrl = `${selectedRepo.url}/issues?q=is%3Aissue+is%3Aopen+label%3A%22good+first+issue%22`;
+      const issuesUrl = getProviderForUrl(selectedRepo.url).getIssuesUrl(selectedRepo.url, DEFAULT_ISSUE_LABELS[0]);
       await open(issuesUrl);
       console.log(chalk.green(`\n✅ Opened good first issues in browser\n`));
     } else if (repoAction === 'details') {
@@ -688,7 +1457,62 @@ async function interactiveMode(results: RepoAnalysis[]): Promise<void> {
           message: 'Press Enter to continue...'
         }
       ]);
+    } else if (repoAction === 'similar') {
+      await findSimilarRepos(selectedRepo);
+    }
+  }
+}
+
+/**
+ * Find repositories similar to an analyzed one, by topics, language and
+ * description keywords
+ */
+async function findSimilarRepos(analysis: RepoAnalysis): Promise<void> {
+  const userConfig = await loadUserConfig();
+  const searchParams: SearchParams = {
+    ...buildSimilarSearchParams(analysis, getConfigSearchParams(userConfig)),
+    // Neighbors are searched on the same forge
+    host: toSearchHost(new URL(analysis.url).host)
+  };
+
+  if (!searchParams.keywords) {
+    console.log(chalk.yellow(`\n⚠️  ${analysis.name} has no topics or description to compare with\n`));
+    return;
+  }
+
+  console.log(chalk.cyan.bold(`\n🧭 Repositories similar to ${analysis.name}\n`));
+
+  try {
+    const { results } = await collectSearchResults(searchParams, {
+      enableAdvancedStats: false,
+      showOnlyActive: false
+    }, userConfig);
+
+    const similar = rankBySimilarity(analysis, results);
+
+    if (similar.length === 0) {
+      console.log(chalk.yellow('\nNo similar repositories found\n'));
+      return;
     }
+
+    console.log(chalk.green.bold(`\n✅ Found ${similar.length} similar repositories\n`));
+
+    similar.forEach((repo, index) => {
+      const overlap = Math.round(topicOverlap(analysis, repo) * 100);
+      const scoreColor = getScoreColor(repo.activityScore || 0);
+      console.log(
+        chalk.green(`${index + 1}. ${repo.name}`) +
+        ` ${scoreColor(`${(repo.activityScore || 0).toFixed(1)}/10`)}` +
+        chalk.magenta(` | 🏷️  ${overlap}% topic overlap`) +
+        ` | ⭐ ${formatLargeNumber(repo.stars)}`
+      );
+      console.log(chalk.gray(`   ${repo.description}`));
+    });
+
+    console.log();
+    await interactiveMode(similar);
+  } catch (error) {
+    reportApiError(error);
   }
 }
 
@@ -729,6 +1553,7 @@ async function bookmarksMode(): Promise<void> {
       message: 'What would you like to do?',
       choices: [
         { name: '🌐 Open a bookmark', value: 'open' },
+        { name: '🧭 Find repositories similar to a bookmark', value: 'similar' },
         { name: '🗑️  Remove a bookmark', value: 'remove' },
         { name: '← Exit', value: 'exit' }
       ]
@@ -750,6 +1575,29 @@ async function bookmarksMode(): Promise<void> {
 
     await open(bookmarks[selected].url);
     console.log(chalk.green(`\n✅ Opened ${bookmarks[selected].fullName} in browser\n`));
+  } else if (action === 'similar') {
+    const { selected } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'selected',
+        message: 'Find repositories similar to:',
+        choices: bookmarks.map((b, i) => ({
+          name: b.fullName,
+          value: i
+        }))
+      }
+    ]);
+
+    const spinner = ora(`Analyzing ${bookmarks[selected].fullName}...`).start();
+    const repo = await getRepoByUrl(bookmarks[selected].fullName);
+    if (!repo) {
+      spinner.fail(chalk.red(`Failed to fetch ${bookmarks[selected].fullName}`));
+      return;
+    }
+    const analysis = await analyzeRepo(repo, null);
+    spinner.stop();
+
+    await findSimilarRepos(analysis);
   } else if (action === 'remove') {
     const { selected } = await inquirer.prompt([
       {
@@ -805,7 +1653,8 @@ async function historyMode(): Promise<void> {
   history.forEach((search: any, index) => {
     const date = new Date(search.timestamp).toLocaleString();
     console.log(chalk.cyan(`${index + 1}. ${search.keywords}`));
-    console.log(`   Language: ${search.language} | Min Stars: ${search.minStars} | Results: ${search.maxResults}`);
+    console.log(`   Languages: ${formatLanguages(search.languages)} | Min Stars: ${search.minStars} | Results: ${search.maxResults}`);
+    console.log(`   Sort: ${search.sort || DEFAULT_CONFIG.sort} | Ranking: ${search.ranking || DEFAULT_CONFIG.ranking}`);
     console.log(chalk.gray(`   ${date}\n`));
   });
 
@@ -828,14 +1677,207 @@ async function historyMode(): Promise<void> {
         name: 'selected',
         message: 'Select search to repeat:',
         choices: history.map((s: any, i) => ({
-          name: `${s.keywords} (${s.language})`,
+          name: `${s.keywords} (${formatLanguages(s.languages)})`,
           value: i
         }))
       }
     ]);
 
-    console.log(chalk.cyan(`\nRepeating search: ${history[selected].keywords}\n`));
-    // This would trigger a new search - implementation would go in main()
+    await repeatSearch(selected + 1);
+  }
+}
+
+/**
+ * Print a table of key metrics, one row per repository
+ */
+function printComparisonTable(analyses: RepoAnalysis[]): void {
+  // Headers
+  const nameWidth = Math.max(...analyses.map(a => a.name.length), 15);
+
+  console.log(
+    chalk.cyan.bold('Repository'.padEnd(nameWidth)) +
+    chalk.cyan.bold(' | Stars  ') +
+    chalk.cyan.bold(' | Forks ') +
+    chalk.cyan.bold(' | Issues') +
+    chalk.cyan.bold(' | GFI') +
+    chalk.cyan.bold(' | Contrib') +
+    chalk.cyan.bold(' | Bus') +
+    chalk.cyan.bold(' | Commits (52w)  ') +
+    chalk.cyan.bold(' | Score')
+  );
+  console.log('─'.repeat(80));
+
+  // Data rows
+  analyses.forEach(analysis => {
+    const scoreColor = getScoreColor(analysis.activityScore || 0);
+    const name = analysis.name.padEnd(nameWidth);
+    const stars = formatLargeNumber(analysis.stars).padStart(6);
+    const forks = formatLargeNumber(analysis.forks).padStart(5);
+    const issues = analysis.openIssues.toString().padStart(6);
+    const gfi = (analysis.unknownFields?.includes('goodFirstIssues')
+      ? '?'
+      : analysis.goodFirstIssues.length.toString()).padStart(3);
+    const contributors = (analysis.contributorsCount !== null
+      ? formatLargeNumber(analysis.contributorsCount)
+      : '?').padStart(7);
+    // Authors behind half the recent commits, 1 means a single maintainer
+    const share50 = analysis.busFactor?.share50;
+    const busText = (share50 !== undefined ? share50.toString() : '?').padStart(3);
+    const bus = share50 === 1 ? chalk.red(busText) : share50 === 2 ? chalk.yellow(busText) : busText;
+    // Four weeks per character to fit the column
+    const activity = analysis.commitActivity
+      ? `${chalk.cyan(createSparkline(bucketSeries(analysis.commitActivity, 13)))} ${getTrendIndicator(getActivityTrend(analysis.commitActivity))}`
+      : '?'.padEnd(15);
+    const score = scoreColor(`${(analysis.activityScore || 0).toFixed(1)}/10`);
+    const stale = isOffline()
+      ? chalk.magenta(analysis.dataAge !== undefined ? ` cached ${formatAge(analysis.dataAge)} ago` : ' not cached')
+      : '';
+
+    console.log(`${chalk.white(name)} | ${stars} | ${forks} | ${issues} | ${gfi} | ${contributors} | ${bus} | ${activity} | ${score}${stale}`);
+  });
+}
+
+/**
+ * List public repositories of an organization or user page by page, most
+ * recently pushed first. Archived repos and forks are skipped since they
+ * rarely take contributions.
+ */
+async function* ownerReposPaged(
+  client: OctokitInstance,
+  kind: OwnerKind,
+  owner: string,
+  filters: Partial<SearchParams>
+): AsyncGenerator<SearchPage> {
+  const publicRepos = await withRetry(async () => {
+    if (kind === 'org') {
+      const { data } = await client.rest.orgs.get({ org: owner });
+      return data.public_repos;
+    }
+    const { data } = await client.rest.users.getByUsername({ username: owner });
+    return data.public_repos;
+  }, `Fetching ${kind} ${owner}`);
+
+  const limit = Math.min(filters.maxResults || publicRepos, publicRepos);
+  const totalPages = Math.max(Math.ceil(publicRepos / SEARCH_LIMITS.PAGE_SIZE), 1);
+  const languages = (filters.languages || []).map(language => language.toLowerCase());
+  const minStars = filters.minStars || 0;
+
+  const iterator = kind === 'org'
+    ? client.paginate.iterator(client.rest.repos.listForOrg, {
+        org: owner,
+        type: 'public',
+        sort: 'pushed',
+        per_page: SEARCH_LIMITS.PAGE_SIZE
+      })
+    : client.paginate.iterator(client.rest.repos.listForUser, {
+        username: owner,
+        type: 'owner',
+        sort: 'pushed',
+        per_page: SEARCH_LIMITS.PAGE_SIZE
+      });
+
+  let page = 0;
+  let collected = 0;
+
+  for await (const response of iterator) {
+    page++;
+
+    const repos = (response.data as GitHubRepo[])
+      .filter(repo => !repo.archived && !repo.fork)
+      .filter(repo => repo.stargazers_count >= minStars)
+      .filter(repo =>
+        languages.length === 0 ||
+        (repo.language !== null && languages.includes(repo.language.toLowerCase()))
+      )
+      .slice(0, limit - collected);
+
+    collected += repos.length;
+
+    yield {
+      page,
+      totalPages,
+      expectedTotal: limit,
+      repos
+    };
+
+    if (collected >= limit) {
+      break;
+    }
+  }
+}
+
+/**
+ * Owner mode - analyze every public repository of an organization or user
+ * and show where newcomers can help
+ */
+async function ownerMode(kind: OwnerKind, owner: string | undefined, args: minimist.ParsedArgs): Promise<void> {
+  if (!owner) {
+    console.log(chalk.red(`\n❌ Missing ${kind === 'org' ? 'organization name' : 'user login'}\n`));
+    console.log(chalk.yellow(`Example: gitpick ${kind} ${kind === 'org' ? 'kubernetes' : 'sindresorhus'}\n`));
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+
+  if (!validateSearchFlags(args) || !checkGitHubOnly(args, `gitpick ${kind}`)) {
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+
+  console.clear();
+  console.log(chalk.blue.bold('\n╔════════════════════════════════════════════════════════╗'));
+  if (kind === 'org') {
+    console.log(chalk.blue.bold('║          🏢 GitPick - Organization Repos 🏢            ║'));
+  } else {
+    console.log(chalk.blue.bold('║              👤 GitPick - User Repos 👤                ║'));
+  }
+  console.log(chalk.blue.bold('╚════════════════════════════════════════════════════════╝\n'));
+
+  const userConfig = await loadUserConfig();
+  const spinner = ora(`Listing repositories of ${owner}...`).start();
+
+  try {
+    const { results } = await analyzePages(
+      ownerReposPaged(getGitHubClient(toSearchHost(args.host)), kind, owner, getSearchFlags(args)),
+      spinner,
+      Boolean(args.advanced),
+      userConfig.analysisConcurrency
+    );
+
+    if (results.length === 0) {
+      spinner.fail(`No active public repositories found for ${owner}`);
+      process.exitCode = EXIT_CODES.NO_RESULTS;
+      return;
+    }
+
+    const ranked = rankResults(results, args.rank || 'score');
+
+    console.log(chalk.green.bold(`\n✅ Analyzed ${ranked.length} repositories of ${owner}\n`));
+
+    console.log(chalk.blue.bold('═'.repeat(80)));
+    printComparisonTable(ranked);
+    console.log('\n' + chalk.blue.bold('═'.repeat(80)) + '\n');
+
+    const withIssues = ranked.filter(repo => repo.goodFirstIssues.length > 0);
+
+    if (withIssues.length === 0) {
+      console.log(chalk.yellow(`💡 None of the repositories have open good first issues right now\n`));
+    } else {
+      console.log(chalk.yellow.bold(`💡 ${withIssues.length} of ${ranked.length} repositories have open good first issues:\n`));
+      withIssues.forEach(repo => {
+        console.log(chalk.green(`   ${repo.name}`) + chalk.gray(` (${repo.goodFirstIssues.length} issues, score ${(repo.activityScore || 0).toFixed(1)}/10)`));
+        repo.goodFirstIssues.slice(0, 3).forEach(issue => {
+          console.log(chalk.yellow(`      • ${issue.title}`));
+          console.log(chalk.gray(`        ${issue.html_url}`));
+        });
+      });
+      console.log();
+    }
+
+    await interactiveMode(ranked);
+  } catch (error) {
+    spinner.fail(`Failed to list repositories of ${owner}`);
+    reportApiError(error);
+    process.exitCode = isRateLimitError(error) ? EXIT_CODES.RATE_LIMITED : EXIT_CODES.ERROR;
   }
 }
 
@@ -856,22 +1898,31 @@ async function compareMode(repoNames: string): Promise<void> {
     return;
   }
 
+  const userConfig = await loadUserConfig();
+
+  // Repos missing from the GraphQL batch cost one more request each
+  await warnIfOverBudget(estimateRequestCost(repos.length, 0, {
+    batched: isGraphQLAvailable(),
+    advanced: true
+  }));
+
   const spinner = ora('Fetching repositories...').start();
-  const analyses: RepoAnalysis[] = [];
+  const batch = await prefetchRepos(repos);
 
+  const fetched: Array<{ repo: GitHubRepo; details?: RepoDetails }> = [];
   for (const repoName of repos) {
-    try {
-      const repo = await getRepoByUrl(repoName);
-      if (repo) {
-        spinner.text = `Analyzing ${repo.full_name}...`;
-        const analysis = await analyzeRepo(repo, null, true);
-        analyses.push(analysis);
-      }
-    } catch (error) {
+    const entry = await getPrefetchedRepo(batch, repoName);
+    if (entry) {
+      fetched.push(entry);
+    } else {
       spinner.warn(`Failed to fetch ${repoName}`);
+      spinner.start('Fetching repositories...');
     }
   }
 
+  spinner.text = `Analyzing ${fetched.length} repositories...`;
+  const analyses = await analyzeRepos(fetched, null, true, userConfig.analysisConcurrency);
+
   spinner.succeed(chalk.green(`Analyzed ${analyses.length} repositories\n`));
 
   if (analyses.length === 0) {
@@ -884,31 +1935,7 @@ async function compareMode(repoNames: string): Promise<void> {
   console.log(chalk.blue.bold('COMPARISON TABLE'));
   console.log(chalk.blue.bold('═'.repeat(80)) + '\n');
 
-  // Headers
-  const nameWidth = Math.max(...analyses.map(a => a.name.length), 15);
-
-  console.log(
-    chalk.cyan.bold('Repository'.padEnd(nameWidth)) +
-    chalk.cyan.bold(' | Stars  ') +
-    chalk.cyan.bold(' | Forks ') +
-    chalk.cyan.bold(' | Issues') +
-    chalk.cyan.bold(' | GFI') +
-    chalk.cyan.bold(' | Score')
-  );
-  console.log('─'.repeat(80));
-
-  // Data rows
-  analyses.forEach(analysis => {
-    const scoreColor = getScoreColor(analysis.activityScore || 0);
-    const name = analysis.name.padEnd(nameWidth);
-    const stars = formatLargeNumber(analysis.stars).padStart(6);
-    const forks = formatLargeNumber(analysis.forks).padStart(5);
-    const issues = analysis.openIssues.toString().padStart(6);
-    const gfi = analysis.goodFirstIssues.length.toString().padStart(3);
-    const score = scoreColor(`${(analysis.activityScore || 0).toFixed(1)}/10`);
-
-    console.log(`${chalk.white(name)} | ${stars} | ${forks} | ${issues} | ${gfi} | ${score}`);
-  });
+  printComparisonTable(analyses);
 
   console.log('\n' + chalk.blue.bold('═'.repeat(80)) + '\n');
 
@@ -917,15 +1944,26 @@ async function compareMode(repoNames: string): Promise<void> {
 
   analyses.forEach((analysis, index) => {
     console.log(chalk.green(`${index + 1}. ${analysis.name}`));
-    console.log(`   Activity: ${visualizeActivity(analysis.lastActivity)}`);
-    console.log(`   Health: ${createHealthIndicator(
-      analysis.hasContributing,
-      analysis.hasCodeOfConduct,
-      analysis.license !== null,
-      analysis.goodFirstIssues.length
-    )}`);
-    if (analysis.contributorsCount) {
-      console.log(`   👥 ${analysis.contributorsCount} contributors`);
+    const unknown = new Set(analysis.unknownFields || []);
+    console.log(`   Activity: ${unknown.has('lastCommit') ? chalk.gray('unknown') : visualizeActivity(analysis.lastActivity)}`);
+    if (unknown.has('communityFiles') || unknown.has('goodFirstIssues')) {
+      console.log(`   Health: ${chalk.gray('unknown, not cached')}`);
+    } else {
+      console.log(`   Health: ${createHealthIndicator(
+        analysis.hasContributing,
+        analysis.hasCodeOfConduct,
+        analysis.license !== null,
+        analysis.goodFirstIssues.length
+      )}`);
+    }
+    if (analysis.contributorsCount !== null) {
+      console.log(`   👥 ${formatLargeNumber(analysis.contributorsCount)} contributors`);
+    }
+    if (analysis.contributorsCount !== null || analysis.busFactor !== null) {
+      console.log(`   ${visualizeBusFactor(analysis.busFactor)}`);
+    }
+    if (analysis.commitActivity) {
+      console.log(`   ${visualizeCommitActivity(analysis.commitActivity, getActivityTrend(analysis.commitActivity))}`);
     }
     console.log();
   });
@@ -941,7 +1979,7 @@ async function compareMode(repoNames: string): Promise<void> {
 /**
  * Template mode - use quick search template
  */
-async function templateMode(templateName: string): Promise<void> {
+async function templateMode(templateName: string, args: minimist.ParsedArgs): Promise<void> {
   const template = getTemplate(templateName);
 
   if (!template) {
@@ -954,6 +1992,11 @@ async function templateMode(templateName: string): Promise<void> {
     return;
   }
 
+  if (!validateSearchFlags(args)) {
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+
   console.clear();
   console.log(chalk.blue.bold('\n╔════════════════════════════════════════════════════════╗'));
   console.log(chalk.blue.bold(`║          🎯 GitPick - ${template.name.padEnd(28)} 🎯          ║`));
@@ -961,35 +2004,994 @@ async function templateMode(templateName: string): Promise<void> {
 
   console.log(chalk.gray(`${template.description}\n`));
 
-  // Execute search with template params
-  // This would trigger a search with the template parameters - implementation in main()
+  // Template values win over user config, command line flags win over both
+  const userConfig = await loadUserConfig();
+  const searchParams: SearchParams = {
+    ...getConfigSearchParams(userConfig),
+    ...template.params,
+    ...getSearchFlags(args)
+  };
+
+  await runSearch(searchParams, {
+    enableAdvancedStats: Boolean(args.advanced),
+    showOnlyActive: Boolean(args['only-active']),
+    saveResults: userConfig.saveResults,
+    interactiveMode: true
+  }, userConfig);
 }
 
 /**
- * Main function
+ * Display a single issue from issues mode
  */
-async function main(): Promise<void> {
-  // Parse command line arguments
-  const args = minimist(process.argv.slice(2), {
-    string: ['a', 'analyze', 'bookmark', 'compare', 'repeat'],
-    boolean: [
-      'h', 'help',
-      'bookmarks', 'history',
-      'trending', 'beginner', 'active', 'small', 'hacktoberfest',
-      'save', 'fork', 'star', 'clone', 'watch'
-    ],
-    alias: {
-      a: 'analyze',
-      h: 'help'
-    }
-  });
+function displayIssue(issue: IssueCandidate, index: number): void {
+  const rank = issue.rank || 0;
+  const rankColor = getScoreColor(rank);
 
-  // Show help
-  if (args.help) {
+  console.log(chalk.green.bold(`\n${index}. ${issue.title}`) + ` ${createColoredBar(rank, 10)} ${rankColor.bold(`${rank.toFixed(1)}/10`)}`);
+
+  let repoLine = `   📦 ${issue.repo}#${issue.number}`;
+  if (issue.repoScore !== undefined) {
+    repoLine += chalk.gray(` (repo score ${issue.repoScore.toFixed(1)}/10)`);
+  }
+  console.log(chalk.cyan(repoLine));
+
+  const metrics = [
+    `🕒 ${getIssueAge(issue)}d old`,
+    `💬 ${issue.comments} comments`,
+    issue.assigned ? chalk.yellow('👤 Assigned') : chalk.green('✋ Unassigned')
+  ];
+  console.log(`   ${metrics.join(' | ')}`);
+
+  if (issue.labels.length > 0) {
+    console.log(chalk.magenta(`   🏷️  ${issue.labels.slice(0, 5).join(', ')}`));
+  }
+
+  console.log(chalk.gray(`   ${issue.html_url}`));
+}
+
+/**
+ * Issues mode - search good first issues across all repositories and rank
+ * them as concrete tasks
+ */
+async function issuesMode(keywords: string, args: minimist.ParsedArgs): Promise<void> {
+  if (!validateSearchFlags(args, SEARCH_LIMITS.PAGE_SIZE) || !checkGitHubOnly(args, 'gitpick issues')) {
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+
+  console.clear();
+  console.log(chalk.blue.bold('\n╔════════════════════════════════════════════════════════╗'));
+  console.log(chalk.blue.bold('║           💡 GitPick - Good First Issues 💡            ║'));
+  console.log(chalk.blue.bold('╚════════════════════════════════════════════════════════╝\n'));
+
+  const params: IssueSearchParams = {
+    keywords: resolveDateExpressions(keywords),
+    languages: args.lang !== undefined ? parseLanguages(args.lang) : [],
+    labels: args.label ? parseList(args.label) : DEFAULT_ISSUE_LABELS,
+    maxResults: args.limit ? Number(args.limit) : 30,
+    onlyUnassigned: Boolean(args.unassigned)
+  };
+
+  console.error(chalk.gray(`🔎 Query: ${buildIssueQuery(params)}\n`));
+
+  const spinner = ora('Searching issues...').start();
+
+  try {
+    const issues = await searchIssues(getGitHubClient(toSearchHost(args.host)), params);
+
+    if (issues.length === 0) {
+      spinner.fail('No issues found. Try other labels or languages.');
+      process.exitCode = EXIT_CODES.NO_RESULTS;
+      return;
+    }
+
+    spinner.stop();
+
+    // Score each repository once, however many of its issues were found
+    const repoNames = Array.from(new Set(issues.map(issue => issue.repo)));
+    const repoScores = new Map<string, number>();
+
+    const progressBar = new cliProgress.SingleBar({
+      format: '{task} | {bar} | {value}/{total} repos',
+      barCompleteChar: '\u2588',
+      barIncompleteChar: '\u2591',
+      hideCursor: true
+    });
+
+    progressBar.start(repoNames.length, 0, { task: 'Fetching repository details...' });
+
+    const batch = await prefetchRepos(repoNames);
+
+    const userConfig = await loadUserConfig();
+    let completed = 0;
+
+    await mapWithConcurrency(repoNames, userConfig.analysisConcurrency, async repoName => {
+      const fetched = await getPrefetchedRepo(batch, repoName);
+      if (fetched) {
+        const [analysis] = await analyzeRepos([fetched], progressBar, false, 1);
+        repoScores.set(repoName, analysis.activityScore || 0);
+      }
+      progressBar.update(++completed);
+    });
+
+    progressBar.stop();
+
+    const ranked = rankIssues(
+      issues.map(issue => ({ ...issue, repoScore: repoScores.get(issue.repo) }))
+    );
+
+    console.log(chalk.green.bold(`\n✅ Found ${ranked.length} issues in ${repoNames.length} repositories\n`));
+
+    ranked.forEach((issue, index) => {
+      displayIssue(issue, index + 1);
+    });
+
+    console.log();
+
+    while (true) {
+      const { selected } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'selected',
+          message: 'Open an issue in browser:',
+          choices: [
+            ...ranked.map((issue, i) => ({
+              name: `${i + 1}. ${issue.repo}#${issue.number} ${issue.title}`,
+              value: i
+            })),
+            new inquirer.Separator(),
+            { name: '← Exit', value: 'exit' }
+          ],
+          pageSize: 15
+        }
+      ]);
+
+      if (selected === 'exit') {
+        break;
+      }
+
+      await open(ranked[selected].html_url);
+      console.log(chalk.green(`\n✅ Opened ${ranked[selected].repo}#${ranked[selected].number} in browser\n`));
+    }
+  } catch (error) {
+    spinner.fail('Issue search error');
+    reportApiError(error);
+    if (isRateLimitError(error)) {
+      process.exitCode = EXIT_CODES.RATE_LIMITED;
+    } else if (isAuthError(error)) {
+      process.exitCode = EXIT_CODES.AUTH_FAILED;
+    } else {
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  }
+}
+
+/**
+ * Analyze repositories as soon as their page arrives, with a progress bar
+ * showing pages and repos. The spinner runs until the first repo shows up.
+ */
+async function analyzePages(
+  pages: AsyncIterable<SearchPage>,
+  spinner: Ora,
+  enableAdvancedStats: boolean,
+  concurrency: number
+): Promise<{ results: RepoAnalysis[]; repos: GitHubRepo[] }> {
+  const progressBar = new cliProgress.SingleBar({
+    format: '{task} | {bar} | {value}/{total} repos | page {page}/{pages}',
+    barCompleteChar: '\u2588',
+    barIncompleteChar: '\u2591',
+    hideCursor: true
+  });
+
+  const results: RepoAnalysis[] = [];
+  const repos: GitHubRepo[] = [];
+  let started = false;
+
+  for await (const page of pages) {
+    if (!started && page.repos.length > 0) {
+      spinner.stop();
+      progressBar.start(page.expectedTotal, 0, {
+        task: 'Starting analysis...',
+        page: page.page,
+        pages: page.totalPages
+      });
+      started = true;
+    }
+
+    if (!started) {
+      continue;
+    }
+
+    progressBar.update({ page: page.page, pages: page.totalPages, task: 'Fetching repository details...' });
+
+    // Repos with cached details don't need to be in the GraphQL batch
+    const uncached: GitHubRepo[] = [];
+    for (const repo of page.repos) {
+      if (await needsDetails(repo)) {
+        uncached.push(repo);
+      }
+    }
+
+    const batch = await fetchRepoBatch(uncached.map(repo => getRepoRef(repo)));
+
+    repos.push(...page.repos);
+
+    // Completed count across pages, workers finish in any order
+    let completed = results.length;
+    const analyses = await analyzeRepos(
+      page.repos.map(repo => ({
+        repo,
+        details: batch.get(repoKey(repo.owner.login, repo.name))?.details
+      })),
+      progressBar,
+      enableAdvancedStats,
+      concurrency,
+      () => progressBar.update(++completed)
+    );
+    results.push(...analyses);
+
+    if (page.page < page.totalPages) {
+      progressBar.update({ task: `Loading page ${page.page + 1}...` });
+    }
+  }
+
+  if (started) {
+    // Duplicates, filters and short pages can leave fewer repos than estimated
+    progressBar.setTotal(results.length);
+    progressBar.stop();
+  }
+
+  return { results, repos };
+}
+
+/**
+ * Warn on stderr when an estimated cost won't fit the remaining rate limits
+ */
+async function warnIfOverBudget(cost: RequestCost): Promise<void> {
+  if (isOffline()) {
+    return;
+  }
+
+  const shortfalls = await checkBudget(getGitHubClient(), cost);
+
+  for (const { resource, needed, remaining, reset } of shortfalls) {
+    const resetIn = formatWait(Math.max(0, Math.ceil(reset - Date.now() / 1000)));
+    console.error(chalk.yellow(
+      `⚠️  This needs about ${needed} ${resource} requests but only ${remaining} remain (resets in ${resetIn}).\n` +
+      '   GitPick will pause until the reset when the limit is hit.\n'
+    ));
+  }
+}
+
+/**
+ * Search, analyze and rank repositories. Spinners and progress go to stderr,
+ * so nothing is written to stdout.
+ */
+async function collectSearchResults(
+  searchParams: SearchParams,
+  options: Pick<SearchRunOptions, 'enableAdvancedStats' | 'showOnlyActive'>,
+  userConfig: UserConfig
+): Promise<SearchOutcome> {
+  // Relative dates resolve now, so cache entries and results match today's dates
+  searchParams = {
+    ...searchParams,
+    keywords: resolveDateExpressions(searchParams.keywords)
+  };
+
+  const provider = getProvider(searchParams.host);
+  console.error(chalk.gray(`🔎 Query: ${provider.describeSearch(searchParams)}\n`));
+
+  const ignored = provider.ignoredFilters(searchParams);
+  if (ignored.length > 0) {
+    console.error(chalk.yellow(`⚠️  ${provider.host} can't filter by ${ignored.join(', ')}, ignoring them\n`));
+  }
+
+  // Check cache first
+  let repos: GitHubRepo[] | null = null;
+  if (isOffline()) {
+    const spinner = ora('Checking cache...').start();
+    const stale = await getStaleCache<GitHubRepo[]>(searchParams);
+    if (stale) {
+      repos = stale.data;
+      spinner.succeed(chalk.magenta(`📴 Offline, using search results cached ${formatAge(stale.age)} ago\n`));
+    } else {
+      spinner.info('📴 Offline and this search isn\'t cached, trying cached pages...');
+    }
+  } else if (userConfig.cacheEnabled) {
+    const spinner = ora('Checking cache...').start();
+    repos = await getCache<GitHubRepo[]>(searchParams, userConfig.cacheTTL);
+    if (repos) {
+      spinner.succeed(chalk.green('Found cached results!\n'));
+    } else {
+      spinner.info('No cache found, searching...');
+    }
+  }
+
+  // Rate limits are only tracked for github.com
+  if (!repos && provider.host === DEFAULT_HOST) {
+    await warnIfOverBudget(estimateRequestCost(
+      searchParams.maxResults,
+      Math.ceil(searchParams.maxResults / SEARCH_LIMITS.PAGE_SIZE),
+      { batched: isGraphQLAvailable(), advanced: options.enableAdvancedStats }
+    ));
+  }
+
+  const spinner: Ora = ora('Searching repositories...').start();
+
+  try {
+    // Cached results arrive as a single page, fresh searches stream page by page
+    const pages = repos ? cachedSearchPages(repos) : searchReposPaged(searchParams);
+
+    spinner.text = 'Searching for suitable repositories...';
+
+    const { results, repos: searchedRepos } = await analyzePages(
+      pages,
+      spinner,
+      options.enableAdvancedStats,
+      userConfig.analysisConcurrency
+    );
+
+    if (results.length === 0) {
+      spinner.fail('No repositories found. Try changing search parameters.');
+      return { analyzed: 0, results: [] };
+    }
+
+    // Cache the search results
+    // Results served from stale pages offline must not look fresh
+    if (!repos && userConfig.cacheEnabled && !isOffline()) {
+      await setCache(searchParams, searchedRepos);
+    }
+
+    // Filter results if showOnlyActive is enabled
+    const filteredResults = options.showOnlyActive
+      ? results.filter(repo => repo.active)
+      : results;
+
+    return {
+      analyzed: results.length,
+      // Rank with the strategy chosen for this search
+      results: rankResults(filteredResults, searchParams.ranking || userConfig.ranking)
+    };
+  } catch (error) {
+    spinner.fail('Search error');
+    throw error;
+  }
+}
+
+/**
+ * Print an API error, with a hint for rate limit and auth failures
+ */
+function reportApiError(error: unknown): void {
+  console.error(chalk.red(`\n❌ ${(error as Error).message}\n`));
+
+  if (isOfflineMissError(error)) {
+    console.error(chalk.yellow('📴 Offline and this isn\'t cached yet. Run it once while online first.\n'));
+  } else if (isRateLimitError(error)) {
+    console.error(chalk.red('❌ Rate limit exceeded. Sign in to increase limit:'));
+    console.error(chalk.yellow('gitpick auth login\n'));
+  } else if (isAuthError(error)) {
+    console.error(chalk.red('❌ The token was rejected. Check it with: gitpick auth status\n'));
+  }
+}
+
+/**
+ * Run a search: query, analyze, rank, display, export and save to history
+ */
+async function runSearch(
+  searchParams: SearchParams,
+  options: SearchRunOptions,
+  userConfig: UserConfig
+): Promise<void> {
+  try {
+    const { analyzed, results: filteredResults } = await collectSearchResults(
+      searchParams,
+      options,
+      userConfig
+    );
+
+    if (analyzed === 0) {
+      return;
+    }
+
+    console.log(chalk.green.bold(`\n✅ Analysis complete! Found ${analyzed} repositories.`));
+    const filtered = analyzed - filteredResults.length;
+    if (filtered > 0) {
+      console.log(chalk.yellow(`   Filtered out ${filtered} inactive repositories.\n`));
+    } else {
+      console.log();
+    }
+
+    // Display results
+    filteredResults.forEach((result, index) => {
+      displayRepo(result, index + 1);
+    });
+
+    // Save results
+    if (options.saveResults) {
+      console.log('\n');
+      const { exportFormats } = await inquirer.prompt<ExportFormatsAnswer>([
+        {
+          type: 'checkbox',
+          name: 'exportFormats',
+          message: 'Select export formats:',
+          choices: [
+            { name: 'JSON', value: 'json' as const, checked: true },
+            { name: 'Markdown', value: 'markdown' as const, checked: true },
+            { name: 'CSV', value: 'csv' as const, checked: false },
+            { name: 'HTML', value: 'html' as const, checked: false }
+          ],
+          validate: (answer: string[]) => answer.length > 0 || 'Select at least one format'
+        }
+      ]);
+
+      console.log('');
+
+      for (const format of exportFormats) {
+        if (format === 'json') await exportToJSON(filteredResults);
+        if (format === 'markdown') await exportToMarkdown(filteredResults);
+        if (format === 'csv') await exportToCSV(filteredResults);
+        if (format === 'html') await exportToHTML(filteredResults);
+      }
+    }
+
+    // Save to search history
+    await addToHistory(searchParams);
+
+    // Interactive mode
+    if (options.interactiveMode) {
+      console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
+      console.log(chalk.cyan.bold('\n🎮 Entering interactive mode...\n'));
+      await interactiveMode(filteredResults);
+    }
+
+    // Final message
+    console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
+    console.log(chalk.green.bold('\n✨ Done! Choose a repository and start contributing!\n'));
+
+  } catch (error) {
+    reportApiError(error);
+    const err = error as Error;
+    if (err.stack) {
+      console.error(chalk.gray(err.stack));
+    }
+  }
+}
+
+/**
+ * Repeat the nth search from history with its original sort and ranking
+ */
+async function repeatSearch(position: number): Promise<void> {
+  const history = await getSearchHistory();
+  const entry = history[position - 1];
+
+  if (!entry) {
+    console.log(chalk.red(`\n❌ No search #${position} in history\n`));
+    console.log(chalk.yellow('Use "gitpick --history" to see recent searches\n'));
+    return;
+  }
+
+  const userConfig = await loadUserConfig();
+  const { timestamp: _timestamp, ...searchParams } = entry;
+
+  console.log(chalk.cyan(`\nRepeating search: ${searchParams.keywords}\n`));
+
+  await runSearch(searchParams, {
+    enableAdvancedStats: false,
+    showOnlyActive: false,
+    saveResults: userConfig.saveResults,
+    interactiveMode: true
+  }, userConfig);
+}
+
+/**
+ * Search command - flag-driven search that never prompts and writes
+ * machine-readable results to stdout. Returns the process exit code.
+ */
+async function searchCommand(keywords: string, args: minimist.ParsedArgs): Promise<number> {
+  const format = (args.format || 'json') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    console.error(chalk.red(`\n❌ Unknown format "${args.format}"\n`));
+    console.error(chalk.yellow(`Available: ${EXPORT_FORMATS.join(', ')}\n`));
+    return EXIT_CODES.ERROR;
+  }
+
+  if (!validateSearchFlags(args)) {
+    return EXIT_CODES.ERROR;
+  }
+
+  const userConfig = await loadUserConfig();
+  if (args.cache === false) {
+    userConfig.cacheEnabled = false;
+  }
+
+  // Without --lang a scripted search covers every language
+  const searchParams: SearchParams = {
+    ...getConfigSearchParams(userConfig),
+    keywords,
+    languages: [],
+    ...getSearchFlags(args)
+  };
+
+  try {
+    const { results } = await collectSearchResults(searchParams, {
+      enableAdvancedStats: Boolean(args.advanced),
+      showOnlyActive: Boolean(args['only-active'])
+    }, userConfig);
+
+    if (results.length === 0) {
+      return EXIT_CODES.NO_RESULTS;
+    }
+
+    process.stdout.write(formatResults(results, format) + '\n');
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    reportApiError(error);
+    if (isRateLimitError(error)) return EXIT_CODES.RATE_LIMITED;
+    if (isAuthError(error)) return EXIT_CODES.AUTH_FAILED;
+    return EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Format a duration in milliseconds as "5m", "3h" or "2d"
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Cache command - inspect and clean up the cache
+ */
+async function cacheCommand(action: string | undefined): Promise<void> {
+  switch (action) {
+    case 'stats': {
+      const stats = await getCacheStats();
+      const entries = await listCacheEntries();
+      const expired = entries.filter(entry => entry.status === 'expired').length;
+
+      console.log(chalk.blue.bold('\n📦 Cache\n'));
+      console.log(`   Location:  ${stats.directory}`);
+      console.log(`   Size:      ${stats.sizeFormatted} of ${stats.maxSizeFormatted}`);
+      console.log(`   Entries:   ${stats.files} (${stats.byKind.search} searches, ${stats.byKind.repo} repositories, ${stats.byKind.response} responses)`);
+      console.log(`   Expired:   ${expired}${expired > 0 ? chalk.gray(' (gitpick cache prune)') : ''}\n`);
+      return;
+    }
+
+    case 'ls': {
+      const entries = await listCacheEntries();
+      if (entries.length === 0) {
+        console.log(chalk.yellow('\n📦 Cache is empty\n'));
+        return;
+      }
+
+      const statusColors = { fresh: chalk.green, stale: chalk.yellow, expired: chalk.red };
+      console.log(chalk.bold(`\n${'Status'.padEnd(9)}${'Kind'.padEnd(10)}${'Age'.padEnd(6)}${'Size'.padEnd(10)}Contents`));
+
+      for (const entry of entries) {
+        const description = entry.description.length > 70
+          ? entry.description.slice(0, 67) + '...'
+          : entry.description;
+        console.log(
+          statusColors[entry.status](entry.status.padEnd(9)) +
+          entry.kind.padEnd(10) +
+          formatAge(entry.age).padEnd(6) +
+          formatBytes(entry.size).padEnd(10) +
+          description
+        );
+      }
+      console.log();
+      return;
+    }
+
+    case 'prune': {
+      const { removed, freed } = await pruneCache();
+      console.log(chalk.green(`\n🧹 Removed ${removed} expired entries (${formatBytes(freed)})\n`));
+      return;
+    }
+
+    case 'clear': {
+      const { files, sizeFormatted } = await getCacheStats();
+      if (await clearCache()) {
+        console.log(chalk.green(`\n🗑️  Removed ${files} entries (${sizeFormatted})\n`));
+      } else {
+        console.log(chalk.yellow('\n📦 Nothing to clear\n'));
+      }
+      return;
+    }
+
+    default:
+      console.log(chalk.red(`\n❌ ${action ? `Unknown cache command "${action}"` : 'Missing cache command'}\n`));
+      console.log(chalk.yellow('Usage: gitpick cache stats|ls|prune|clear\n'));
+      process.exitCode = EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Rate mode - show the current limits of each API resource
+ */
+async function rateMode(): Promise<void> {
+  if (isOffline()) {
+    console.log(chalk.yellow('\n📴 Rate limits can\'t be checked offline\n'));
+    return;
+  }
+
+  const spinner = ora('Fetching rate limits...').start();
+
+  try {
+    const limits = await fetchRateLimits(getGitHubClient());
+    spinner.stop();
+
+    console.log(chalk.blue.bold('\n📊 GitHub API rate limits') +
+      chalk.gray(getProvider().authenticated ? ' (authenticated)\n' : ' (unauthenticated, run gitpick auth login for more)\n'));
+
+    console.log(chalk.bold(`${'Resource'.padEnd(10)}${'Remaining'.padEnd(18)}${'Used'.padEnd(8)}Resets`));
+
+    for (const [resource, state] of limits) {
+      const ratio = state.limit > 0 ? state.remaining / state.limit : 0;
+      const color = ratio > 0.5 ? chalk.green : ratio > 0.1 ? chalk.yellow : chalk.red;
+      const resetIn = formatWait(Math.max(0, Math.ceil(state.reset - Date.now() / 1000)));
+      const resetAt = new Date(state.reset * 1000).toLocaleTimeString();
+
+      console.log(
+        resource.padEnd(10) +
+        color(`${state.remaining} / ${state.limit}`.padEnd(18)) +
+        String(state.used).padEnd(8) +
+        chalk.gray(`in ${resetIn} (${resetAt})`)
+      );
+    }
+    console.log();
+  } catch (error) {
+    spinner.fail(`Failed to fetch rate limits: ${(error as Error).message}`);
+    process.exitCode = isAuthError(error) ? EXIT_CODES.AUTH_FAILED : EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Token line of the interactive header, checked against the host so a
+ * rejected token doesn't pass for a working one
+ */
+async function showTokenStatus(provider: RepoProvider): Promise<void> {
+  const isGitHubCom = provider.host === DEFAULT_HOST;
+
+  if (!provider.authenticated) {
+    console.log(chalk.yellow(isGitHubCom
+      ? '⚠️  Not logged in. Rate limit: 60 requests/hour'
+      : `⚠️  Not logged in to ${provider.host}, searching anonymously`));
+    console.log(chalk.gray(`   To log in: gitpick auth login${isGitHubCom ? '' : ` --host ${provider.host}`}\n`));
+    return;
+  }
+
+  if (isOffline()) {
+    return;
+  }
+
+  const user = await getAuthenticatedUser(provider);
+  if (!user) {
+    console.log(chalk.red(`❌ The token for ${provider.host} was rejected or couldn't be checked`));
+    console.log(chalk.gray('   Check it with: gitpick auth status\n'));
+  } else if (isGitHubCom) {
+    console.log(chalk.green(`✅ Logged in as ${user.login}. Rate limit: 5000 requests/hour\n`));
+  } else {
+    console.log(chalk.green(`✅ Logged in to ${provider.host} as ${user.login}\n`));
+  }
+}
+
+/**
+ * Scopes of a token, with a warning when fork, star and watch would fail
+ */
+function showTokenScopes(kind: ProviderKind, scopes: string[] | null): void {
+  if (scopes === null) {
+    console.log(`   Scopes:  ${chalk.gray('not reported for this token')}`);
+    return;
+  }
+
+  console.log(`   Scopes:  ${scopes.length > 0 ? scopes.join(', ') : chalk.gray('none')}`);
+  const required = ACTION_SCOPES[kind];
+  if (required && !required.some(scope => scopes.includes(scope))) {
+    console.log(chalk.yellow(`   ⚠️  Fork, star and watch will fail without the ${required[0]} scope`));
+  }
+}
+
+/**
+ * Read a token piped to gitpick auth login
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim();
+}
+
+/**
+ * Token, account and scopes of a host. Returns false when the token
+ * doesn't work.
+ */
+async function showAuthStatus(config: ProviderConfig): Promise<boolean> {
+  console.log(chalk.bold(`\n${config.host}`));
+
+  const credential = findToken(config);
+  if (!credential) {
+    const login = config.host === DEFAULT_HOST ? 'gitpick auth login' : `gitpick auth login --host ${config.host}`;
+    console.log(chalk.gray(`   Not logged in. Run ${login} or set ${getTokenEnv(config)}`));
+    return true;
+  }
+
+  console.log(`   Token:   ${credential.token.slice(0, 4)}**** from ${credential.location}`);
+  if (isOffline()) {
+    console.log(chalk.gray('   📴 Offline, not checked'));
+    return true;
+  }
+
+  const provider = getProvider(config.host);
+  const user = await getAuthenticatedUser(provider);
+  if (!user) {
+    console.log(chalk.red(`   ❌ Rejected by ${config.host}, or the host is unreachable`));
+    return false;
+  }
+
+  console.log(`   Account: ${chalk.green(user.login)}`);
+  showTokenScopes(provider.kind, user.scopes);
+  return true;
+}
+
+/**
+ * Auth command - log in, log out and check tokens per host
+ */
+async function authCommand(action: string | undefined, args: minimist.ParsedArgs): Promise<void> {
+  const host = toSearchHost(args.host) ?? DEFAULT_HOST;
+  const config = getProviderConfig(host);
+  if (!config) {
+    console.log(chalk.red(`\n❌ Unknown host ${host}, add it to "providers" in ${CONFIG_FILE}\n`));
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+
+  switch (action) {
+    case 'login': {
+      // Check before asking for a token that couldn't be saved
+      const warning = getCredentialsWarning();
+      if (warning) {
+        console.log(chalk.red(`\n❌ ${warning}\n`));
+        process.exitCode = EXIT_CODES.ERROR;
+        return;
+      }
+
+      // Piped tokens keep them out of shell history in scripts
+      const token = process.stdin.isTTY
+        ? (await inquirer.prompt<{ token: string }>([{
+            type: 'password',
+            name: 'token',
+            message: `Token for ${host}:`,
+            mask: '*'
+          }])).token.trim()
+        : await readStdin();
+
+      if (!token) {
+        console.log(chalk.red('\n❌ No token given\n'));
+        process.exitCode = EXIT_CODES.ERROR;
+        return;
+      }
+
+      const spinner = ora(`Checking the token with ${host}...`).start();
+      const user = await getAuthenticatedUser(createProviderWithToken(config, token));
+      if (!user) {
+        spinner.fail(`${host} rejected the token, or couldn't be reached`);
+        process.exitCode = EXIT_CODES.AUTH_FAILED;
+        return;
+      }
+
+      try {
+        saveCredential(host, token, user.login);
+      } catch (error) {
+        spinner.fail(`Couldn't save the token: ${getErrorMessage(error)}`);
+        process.exitCode = EXIT_CODES.ERROR;
+        return;
+      }
+      spinner.succeed(chalk.green(`Logged in to ${host} as ${user.login}`));
+      console.log(chalk.gray(`   Saved to ${formatPath(getCredentialsPath())}`));
+      showTokenScopes(config.kind, user.scopes);
+
+      const tokenEnv = getTokenEnv(config);
+      if (process.env[tokenEnv]) {
+        console.log(chalk.yellow(`   ⚠️  ${tokenEnv} is set and is used instead`));
+      }
+      console.log();
+      return;
+    }
+
+    case 'logout': {
+      let removed: boolean;
+      try {
+        removed = removeCredential(host);
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Couldn't remove the token: ${getErrorMessage(error)}\n`));
+        process.exitCode = EXIT_CODES.ERROR;
+        return;
+      }
+      if (!removed) {
+        console.log(chalk.yellow(`\nNo saved token for ${host}\n`));
+        return;
+      }
+
+      console.log(chalk.green(`\n👋 Removed the saved token for ${host}`));
+      const remaining = findToken(config);
+      if (remaining) {
+        console.log(chalk.yellow(`   A token is still found in ${remaining.location}`));
+      }
+      console.log();
+      return;
+    }
+
+    case 'status': {
+      const warning = getCredentialsWarning();
+      if (warning) {
+        console.log(chalk.yellow(`\n⚠️  ${warning}`));
+      }
+
+      // Every host with a token, and github.com either way
+      const configs = args.host
+        ? [config]
+        : getProviderConfigs().filter(entry => entry.host === DEFAULT_HOST || findToken(entry) !== null);
+
+      let failed = false;
+      for (const entry of configs) {
+        if (!await showAuthStatus(entry)) {
+          failed = true;
+        }
+      }
+      console.log();
+
+      if (failed) {
+        process.exitCode = EXIT_CODES.AUTH_FAILED;
+      }
+      return;
+    }
+
+    default:
+      console.log(chalk.red(`\n❌ ${action ? `Unknown auth command "${action}"` : 'Missing auth command'}\n`));
+      console.log(chalk.yellow('Usage: gitpick auth login|status|logout [--host <host>]\n'));
+      process.exitCode = EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  // Parse command line arguments
+  const args = minimist(process.argv.slice(2), {
+    string: [
+      'a', 'analyze', 'bookmark', 'compare', 'repeat', 'sort', 'rank',
+      'topic', 'exclude-topic', 'exclude-org', 'exclude', 'min-size', 'max-size',
+      'lang', 'min-stars', 'limit', 'license', 'min-forks', 'format', 'label',
+      'record', 'replay', 'host'
+    ],
+    boolean: [
+      'h', 'help',
+      'gfi', 'advanced', 'only-active', 'unassigned',
+      'bookmarks', 'history',
+      'trending', 'beginner', 'active', 'small', 'hacktoberfest',
+      'save', 'fork', 'star', 'clone', 'watch', 'similar', 'offline'
+    ],
+    alias: {
+      a: 'analyze',
+      h: 'help'
+    }
+  });
+
+  // Show help
+  if (args.help) {
     showHelp();
     return;
   }
 
+  const userConfig = await loadUserConfig();
+  configureProviders(userConfig.providers);
+  const fixtureMode = Boolean(args.record || args.replay);
+
+  // Replays run on the clock and tokens of the recording
+  let fixture: FixtureFile | null = null;
+  if (args.record && args.replay) {
+    console.error(chalk.red('\n❌ Use either --record or --replay, not both\n'));
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+  if (args.replay) {
+    try {
+      fixture = loadFixtures(args.replay);
+    } catch (error) {
+      console.error(chalk.red(`\n❌ Can't replay ${args.replay}: ${(error as Error).message}\n`));
+      process.exitCode = EXIT_CODES.ERROR;
+      return;
+    }
+    setClock(new Date(fixture.recordedAt));
+    registerRecordedHosts(fixture);
+  } else {
+    registerGitHubHosts(getGitHubConfigs());
+  }
+
+  // Offline runs only on cached data, whatever the cache settings
+  if (args.offline && !fixtureMode) {
+    goOffline('flag');
+  }
+
+  // Recorded and replayed sessions bypass the cache, so every request
+  // ends up in the fixture file
+  const cacheEnabled = !fixtureMode && (isOffline() || (userConfig.cacheEnabled && args.cache !== false));
+  configureIssueSample(userConfig.issueSample, userConfig.issueSampleDays);
+  configureCache({
+    enabled: cacheEnabled,
+    dir: userConfig.cacheDir,
+    maxSize: userConfig.cacheMaxSize,
+    ttl: userConfig.cacheTTL
+  });
+
+  // Cache management
+  if (args._[0] === 'cache') {
+    await cacheCommand(args._[1] as string | undefined);
+    return;
+  }
+
+  // Token management
+  if (args._[0] === 'auth') {
+    await authCommand(args._[1] as string | undefined, args);
+    return;
+  }
+
+  // Serve GitHub responses from the cache, revalidating expired ones with ETags
+  if (cacheEnabled) {
+    githubClients.forEach(client => installResponseCache(client, userConfig.cacheTTL));
+    analysisCacheEnabled = true;
+    pruneCacheInBackground();
+  } else {
+    // Stop at an unreachable network instead of retrying every request
+    githubClients.forEach(client => installOfflineDetection(client));
+  }
+
+  // Record or replay API traffic of every host
+  if (args.record) {
+    const recordedAt = new Date();
+    setClock(recordedAt);
+    installRecorder([...githubClients.values()], args.record, {
+      recordedAt,
+      authenticatedHosts: getProviderConfigs().filter(config => findToken(config) !== null).map(config => config.host)
+    });
+    console.error(chalk.gray(`⏺  Recording API traffic to ${args.record}\n`));
+  }
+  if (fixture) {
+    installReplayer([...githubClients.values()], fixture);
+    console.error(chalk.gray(`▶️  Replaying ${fixture.entries.length} recorded responses from ${args.replay}\n`));
+  }
+
+  // Non-interactive search command
+  if (args._[0] === 'search') {
+    process.exitCode = await searchCommand(args._.slice(1).join(' '), args);
+    return;
+  }
+
+  // Cross-repository issue search
+  if (args._[0] === 'issues') {
+    await issuesMode(args._.slice(1).join(' '), args);
+    return;
+  }
+
+  // Current rate limits
+  if (args._[0] === 'rate') {
+    await rateMode();
+    return;
+  }
+
+  // Organization and user scoped discovery
+  if (args._[0] === 'org' || args._[0] === 'user') {
+    await ownerMode(args._[0], args._[1], args);
+    return;
+  }
+
   // Bookmarks mode
   if (args.bookmarks) {
     await bookmarksMode();
@@ -1008,6 +3010,12 @@ async function main(): Promise<void> {
     return;
   }
 
+  // Repeat a search from history
+  if (args.repeat) {
+    await repeatSearch(parseInt(args.repeat, 10));
+    return;
+  }
+
   // Compare mode
   if (args.compare) {
     await compareMode(args.compare);
@@ -1016,23 +3024,23 @@ async function main(): Promise<void> {
 
   // Template modes
   if (args.trending) {
-    await templateMode('trending');
+    await templateMode('trending', args);
     return;
   }
   if (args.beginner) {
-    await templateMode('beginner');
+    await templateMode('beginner', args);
     return;
   }
   if (args.active) {
-    await templateMode('active');
+    await templateMode('active', args);
     return;
   }
   if (args.small) {
-    await templateMode('small');
+    await templateMode('small', args);
     return;
   }
   if (args.hacktoberfest) {
-    await templateMode('hacktoberfest');
+    await templateMode('hacktoberfest', args);
     return;
   }
 
@@ -1043,11 +3051,19 @@ async function main(): Promise<void> {
       fork: args.fork,
       star: args.star,
       clone: args.clone,
-      watch: args.watch
+      watch: args.watch,
+      similar: args.similar
     });
     return;
   }
 
+  // Validate flags before asking anything
+  if (!validateSearchFlags(args)) {
+    process.exitCode = EXIT_CODES.ERROR;
+    return;
+  }
+  const filterFlags = getFilterFlags(args);
+
   // Default: Interactive search mode
   console.clear();
   console.log(chalk.blue.bold('\n╔════════════════════════════════════════════════════════╗'));
@@ -1055,16 +3071,10 @@ async function main(): Promise<void> {
   console.log(chalk.blue.bold('║         Find & Analyze GitHub Repos for Contributors  ║'));
   console.log(chalk.blue.bold('╚════════════════════════════════════════════════════════╝\n'));
 
-  // Load user config
-  const userConfig = await loadUserConfig();
-
   // Check token
-  if (!process.env.GITHUB_TOKEN) {
-    console.log(chalk.yellow('⚠️  GITHUB_TOKEN not set. Rate limit: 60 requests/hour'));
-    console.log(chalk.gray('   To increase limit: export GITHUB_TOKEN=your_token\n'));
-  } else {
-    console.log(chalk.green('✅ GITHUB_TOKEN found. Rate limit: 5000 requests/hour\n'));
-  }
+  const host = toSearchHost(args.host);
+  const provider = getProvider(host);
+  await showTokenStatus(provider);
 
   // Show cache stats
   if (userConfig.cacheEnabled) {
@@ -1083,11 +3093,11 @@ async function main(): Promise<void> {
       validate: (input: string) => input.length > 0 || 'Enter at least one word'
     },
     {
-      type: 'list',
-      name: 'language',
-      message: '💻 Programming language:',
-      choices: LANGUAGES,
-      default: userConfig.language || DEFAULT_CONFIG.language
+      type: 'checkbox',
+      name: 'languages',
+      message: '💻 Programming languages (select none for any language):',
+      choices: getLanguageChoices(userConfig),
+      default: [userConfig.language || DEFAULT_CONFIG.language]
     },
     {
       type: 'list',
@@ -1115,7 +3125,24 @@ async function main(): Promise<void> {
       name: 'maxResults',
       message: '📊 Number of results:',
       default: userConfig.maxResults || DEFAULT_CONFIG.maxResults,
-      validate: (input: number) => (input > 0 && input <= 100) || 'From 1 to 100'
+      validate: (input: number) =>
+        (input > 0 && input <= SEARCH_LIMITS.MAX_RESULTS) || `From 1 to ${SEARCH_LIMITS.MAX_RESULTS}`
+    },
+    {
+      type: 'list',
+      name: 'sort',
+      message: '↕️  Search order (GitHub API):',
+      choices: SORT_OPTIONS,
+      default: userConfig.sort || DEFAULT_CONFIG.sort,
+      when: !args.sort
+    },
+    {
+      type: 'list',
+      name: 'ranking',
+      message: '🏆 Rank results by:',
+      choices: RANKING_OPTIONS,
+      default: userConfig.ranking || DEFAULT_CONFIG.ranking,
+      when: !args.rank
     },
     {
       type: 'confirm',
@@ -1123,6 +3150,59 @@ async function main(): Promise<void> {
       message: '💡 Require repositories with "good first issues"?',
       default: true
     },
+    {
+      type: 'confirm',
+      name: 'configureFilters',
+      message: '🧰 Configure topic, organization, type and size filters?',
+      default: false,
+      when: !filterFlags
+    },
+    {
+      type: 'input',
+      name: 'topics',
+      message: '🏷️  Required topics (comma separated, empty = none):',
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
+    {
+      type: 'input',
+      name: 'excludeTopics',
+      message: '🚫 Excluded topics (comma separated, empty = none):',
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
+    {
+      type: 'input',
+      name: 'excludeOrgs',
+      message: '🏢 Excluded organizations (comma separated, empty = none):',
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
+    {
+      type: 'checkbox',
+      name: 'excludeRepoTypes',
+      message: '🗃️  Exclude repository types:',
+      choices: REPO_TYPE_EXCLUSIONS,
+      default: ['archived'],
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
+    {
+      type: 'number',
+      name: 'minSize',
+      message: '📦 Minimum repository size in KB (0 = no filter):',
+      default: 0,
+      validate: (input: number) => input >= 0 || 'Must be >= 0',
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
+    {
+      type: 'number',
+      name: 'maxSize',
+      message: '📦 Maximum repository size in KB (0 = no filter):',
+      default: 0,
+      validate: (input: number, answers?: InquirerAnswers) => {
+        if (!(input >= 0)) return 'Must be >= 0';
+        if (input && answers?.minSize && input < answers.minSize) return 'Must be at least the minimum size';
+        return true;
+      },
+      when: (answers: InquirerAnswers) => answers.configureFilters
+    },
     {
       type: 'confirm',
       name: 'showOnlyActive',
@@ -1149,147 +3229,34 @@ async function main(): Promise<void> {
     }
   ]);
 
+  // Filters come from flags, the prompt, or not at all
+  const filters: Partial<SearchParams> = filterFlags || (answers.configureFilters
+    ? {
+        topics: parseList(answers.topics),
+        excludeTopics: parseList(answers.excludeTopics),
+        excludeOrgs: parseList(answers.excludeOrgs),
+        ...getRepoTypeFilters(answers.excludeRepoTypes || []),
+        minSize: answers.minSize ? answers.minSize : null,
+        maxSize: answers.maxSize ? answers.maxSize : null
+      }
+    : {});
+
   // Build search params
   const searchParams: SearchParams = {
     keywords: answers.keywords,
-    language: answers.language,
+    languages: answers.languages,
     minStars: answers.minStars,
     maxResults: answers.maxResults,
     license: answers.license,
     minForks: answers.minForks > 0 ? answers.minForks : null,
-    requireGoodFirstIssues: answers.requireGoodFirstIssues
+    requireGoodFirstIssues: answers.requireGoodFirstIssues,
+    sort: args.sort || answers.sort,
+    ranking: args.rank || answers.ranking,
+    host,
+    ...filters
   };
 
-  // Check cache first
-  let repos: GitHubRepo[] | null = null;
-  if (userConfig.cacheEnabled) {
-    const spinner = ora('Checking cache...').start();
-    repos = await getCache<GitHubRepo[]>(searchParams, userConfig.cacheTTL);
-    if (repos) {
-      spinner.succeed(chalk.green('Found cached results!\n'));
-    } else {
-      spinner.info('No cache found, searching...');
-    }
-  }
-
-  const spinner: Ora = ora('Searching repositories...').start();
-
-  try {
-    // Search if not cached
-    if (!repos) {
-      spinner.text = 'Searching for suitable repositories...';
-      repos = await searchRepos(searchParams);
-
-      if (repos.length === 0) {
-        spinner.fail('No repositories found. Try changing search parameters.');
-        return;
-      }
-
-      // Cache the search results
-      if (userConfig.cacheEnabled) {
-        await setCache(searchParams, repos);
-      }
-    }
-
-    spinner.text = `Found ${repos.length} repositories. Analyzing...`;
-    spinner.stop();
-
-    // Create progress bar
-    const progressBar = new cliProgress.SingleBar({
-      format: '{task} | {bar} | {value}/{total} repos',
-      barCompleteChar: '\u2588',
-      barIncompleteChar: '\u2591',
-      hideCursor: true
-    });
-
-    progressBar.start(repos.length, 0, { task: 'Starting analysis...' });
-
-    // Analyze each repository
-    const results: RepoAnalysis[] = [];
-    for (let i = 0; i < repos.length; i++) {
-      const repo = repos[i];
-      progressBar.update(i, { task: `Analyzing ${repo.full_name}...` });
-      const analysis = await analyzeRepo(repo, progressBar, answers.enableAdvancedStats);
-      results.push(analysis);
-      progressBar.update(i + 1);
-    }
-
-    progressBar.stop();
-
-    // Filter results if showOnlyActive is enabled
-    let filteredResults = results;
-    if (answers.showOnlyActive) {
-      const beforeCount = results.length;
-      filteredResults = results.filter(repo => repo.active);
-      const filtered = beforeCount - filteredResults.length;
-      console.log(chalk.green.bold(`\n✅ Analysis complete! Found ${results.length} repositories.`));
-      if (filtered > 0) {
-        console.log(chalk.yellow(`   Filtered out ${filtered} inactive repositories.\n`));
-      } else {
-        console.log();
-      }
-    } else {
-      console.log(chalk.green.bold(`\n✅ Analysis complete! Found ${results.length} repositories.\n`));
-    }
-
-    // Sort by activity score
-    filteredResults.sort((a, b) => (b.activityScore || 0) - (a.activityScore || 0));
-
-    // Display results
-    filteredResults.forEach((result, index) => {
-      displayRepo(result, index + 1);
-    });
-
-    // Save results
-    if (answers.saveResults) {
-      console.log('\n');
-      const { exportFormats } = await inquirer.prompt<ExportFormatsAnswer>([
-        {
-          type: 'checkbox',
-          name: 'exportFormats',
-          message: 'Select export formats:',
-          choices: [
-            { name: 'JSON', value: 'json' as const, checked: true },
-            { name: 'Markdown', value: 'markdown' as const, checked: true },
-            { name: 'CSV', value: 'csv' as const, checked: false },
-            { name: 'HTML', value: 'html' as const, checked: false }
-          ],
-          validate: (answer: string[]) => answer.length > 0 || 'Select at least one format'
-        }
-      ]);
-
-      console.log('');
-
-      for (const format of exportFormats) {
-        if (format === 'json') await exportToJSON(filteredResults);
-        if (format === 'markdown') await exportToMarkdown(filteredResults);
-        if (format === 'csv') await exportToCSV(filteredResults);
-        if (format === 'html') await exportToHTML(filteredResults);
-      }
-    }
-
-    // Save to search history
-    await addToHistory(searchParams);
-
-    // Interactive mode
-    if (answers.interactiveMode) {
-      console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
-      console.log(chalk.cyan.bold('\n🎮 Entering interactive mode...\n'));
-      await interactiveMode(filteredResults);
-    }
-
-    // Final message
-    console.log(chalk.blue.bold(`\n${'='.repeat(80)}`));
-    console.log(chalk.green.bold('\n✨ Done! Choose a repository and start contributing!\n'));
-
-  } catch (error) {
-    spinner.fail('Search error');
-    console.error(chalk.red(`\n❌ ${(error as Error).message}\n`));
-    const err = error as Error;
-    if (err.stack) {
-      console.error(chalk.gray(err.stack));
-    }
-  }
+  await runSearch(searchParams, answers, userConfig);
 }
 
 // Run
@@ -0,0 +1,53 @@
+import type { GitHubRepo, SearchParams } from '../types/index.js';
+
+/**
+ * Search filters for forges whose search API only takes keywords. They are
+ * applied to each page of results, so a search can end up with fewer
+ * repositories than asked for.
+ */
+
+export type SearchFilterName =
+  | 'license'
+  | 'size'
+  | 'mirrors'
+  | 'templates'
+  | 'good first issues';
+
+/**
+ * Filters set in the search params that not every forge can apply
+ */
+export function getOptionalFilters(params: SearchParams): SearchFilterName[] {
+  const filters: SearchFilterName[] = [];
+  if (params.license) filters.push('license');
+  if (params.minSize || params.maxSize) filters.push('size');
+  if (params.excludeMirrors) filters.push('mirrors');
+  if (params.excludeTemplates) filters.push('templates');
+  if (params.requireGoodFirstIssues) filters.push('good first issues');
+  return filters;
+}
+
+/**
+ * Stars, forks, language, topic, organization and type filters, which
+ * every forge returns the data for
+ */
+export function matchesCommonFilters(repo: GitHubRepo, params: SearchParams): boolean {
+  const topics = repo.topics.map(topic => topic.toLowerCase());
+  const languages = params.languages.map(language => language.toLowerCase());
+  const owner = repo.owner.login.toLowerCase();
+
+  if (repo.stargazers_count < (params.minStars || 0)) return false;
+  if (params.minForks && repo.forks_count < params.minForks) return false;
+  if (languages.length > 0 && (repo.language === null || !languages.includes(repo.language.toLowerCase()))) {
+    return false;
+  }
+  if ((params.topics || []).some(topic => !topics.includes(topic.toLowerCase()))) return false;
+  if ((params.excludeTopics || []).some(topic => topics.includes(topic.toLowerCase()))) return false;
+  // Nested GitLab groups are excluded with their parent
+  if ((params.excludeOrgs || []).some(org => owner === org.toLowerCase() || owner.startsWith(`${org.toLowerCase()}/`))) {
+    return false;
+  }
+  if (params.excludeArchived && repo.archived) return false;
+  if (params.excludeForks && repo.fork) return false;
+
+  return true;
+}
@@ -0,0 +1,344 @@
+import { DEFAULT_CONFIG, PROVIDER_DEFAULTS } from '../config.js';
+import { getTokenEnv, findToken } from '../utils/credentials.js';
+import { createRestClient, guessAuthorRole, isNotFound } from './rest.js';
+import { getOptionalFilters, matchesCommonFilters } from './filters.js';
+import type { SearchFilterName } from './filters.js';
+import type {
+  RepoProvider,
+  ProviderConfig,
+  SearchParams,
+  SearchSort,
+  GitHubRepo
+} from '../types/index.js';
+
+/**
+ * Gitea over the v1 REST API. Forgejo, and with it Codeberg, keeps the
+ * same API.
+ */
+
+interface GiteaRepo {
+  full_name: string;
+  name: string;
+  owner: { login: string };
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  language: string;
+  html_url: string;
+  open_issues_count: number;
+  topics?: string[] | null;
+  archived: boolean;
+  fork: boolean;
+  mirror: boolean;
+  template?: boolean;
+  size: number; // KB
+}
+
+interface GiteaIssue {
+  number: number;
+  title: string;
+  html_url: string;
+  created_at: string;
+  comments: number;
+  user: { login: string };
+}
+
+interface GiteaPullRequest {
+  number: number;
+  created_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  user: { login: string };
+}
+
+interface GiteaReview {
+  state: string;
+  submitted_at: string;
+  user: { login: string } | null;
+}
+
+interface GiteaCommit {
+  created?: string;
+  author?: { login: string } | null; // null when the email matches no account
+  commit: { author?: { name: string; email: string; date: string } };
+}
+
+const SORT_ORDER: Record<SearchSort, string | undefined> = {
+  'stars': 'stars',
+  'forks': 'forks',
+  'help-wanted-issues': 'stars',
+  'updated': 'updated',
+  'best-match': undefined // Gitea's own order
+};
+
+// Repositories carry no license, and issues can't be searched by label
+const UNSUPPORTED_FILTERS: SearchFilterName[] = ['license', 'good first issues'];
+
+function toRepo(repo: GiteaRepo): GitHubRepo {
+  return {
+    full_name: repo.full_name,
+    name: repo.name,
+    owner: { login: repo.owner.login },
+    description: repo.description || null,
+    stargazers_count: repo.stars_count,
+    language: repo.language || null,
+    html_url: repo.html_url,
+    open_issues_count: repo.open_issues_count,
+    forks_count: repo.forks_count,
+    topics: repo.topics || [],
+    license: null,
+    archived: repo.archived,
+    fork: repo.fork
+  };
+}
+
+/**
+ * Size, mirror and template filters, which only Gitea has the data for
+ */
+function matchesGiteaFilters(repo: GiteaRepo, params: SearchParams): boolean {
+  if (params.minSize && repo.size < params.minSize) return false;
+  if (params.maxSize && repo.size > params.maxSize) return false;
+  if (params.excludeMirrors && repo.mirror) return false;
+  if (params.excludeTemplates && repo.template) return false;
+  return true;
+}
+
+function buildSearchRequest(params: SearchParams, page: number, perPage: number): Record<string, string | number | boolean | undefined> {
+  const sort = SORT_ORDER[params.sort || DEFAULT_CONFIG.sort];
+  return {
+    q: params.keywords || undefined,
+    sort,
+    order: sort ? 'desc' : undefined,
+    archived: params.excludeArchived ? false : undefined,
+    page,
+    limit: perPage
+  };
+}
+
+/**
+ * Create a provider for a Gitea or Forgejo host, with the token found for
+ * it unless one is given, null for none
+ */
+export function createGiteaProvider(
+  config: ProviderConfig,
+  token: string | null = findToken(config)?.token ?? null
+): RepoProvider {
+  const webUrl = (config.url || `https://${config.host}`).replace(/\/+$/, '');
+  const tokenEnv = getTokenEnv(config);
+  const client = createRestClient(
+    webUrl + PROVIDER_DEFAULTS.gitea.API_PATH,
+    token ? { authorization: `token ${token}` } : {}
+  );
+
+  const repoPath = (owner: string, repo: string): string =>
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  return {
+    kind: 'gitea',
+    host: config.host,
+    tokenEnv,
+    authenticated: Boolean(token),
+    pageSize: PROVIDER_DEFAULTS.gitea.PAGE_SIZE,
+
+    describeSearch(params) {
+      const query = Object.entries(buildSearchRequest(params, 1, 1))
+        .filter(([name, value]) => value !== undefined && name !== 'page' && name !== 'limit')
+        .map(([name, value]) => `${name}=${value}`);
+      return `${config.host} repos ${query.join(' ')}`;
+    },
+
+    ignoredFilters(params) {
+      return getOptionalFilters(params).filter(filter => UNSUPPORTED_FILTERS.includes(filter));
+    },
+
+    async searchRepos(params, page, perPage) {
+      const { data, headers } = await client.request<{ data: GiteaRepo[] }>('GET', '/repos/search', {
+        query: buildSearchRequest(params, page, perPage)
+      });
+      const repos = data.data.filter(repo => matchesGiteaFilters(repo, params)).map(toRepo);
+
+      return {
+        totalCount: headers['x-total-count'] ? Number(headers['x-total-count']) : null,
+        fetched: data.data.length,
+        repos: repos.filter(repo => matchesCommonFilters(repo, params))
+      };
+    },
+
+    async getRepo(owner, repo) {
+      const { data } = await client.request<GiteaRepo>('GET', repoPath(owner, repo));
+      return toRepo(data);
+    },
+
+    async listGoodFirstIssues(owner, repo, labels, limit) {
+      const { data } = await client.request<GiteaIssue[]>('GET', `${repoPath(owner, repo)}/issues`, {
+        query: { state: 'open', type: 'issues', labels: labels.join(','), limit }
+      });
+      return data.map(issue => ({
+        title: issue.title,
+        html_url: issue.html_url,
+        number: issue.number,
+        created_at: issue.created_at,
+        comments: issue.comments
+      }));
+    },
+
+    // The issue list filters labels by id, which the URL can't know
+    getIssuesUrl(repoUrl) {
+      return `${repoUrl}/issues?state=open`;
+    },
+
+    // Since filters on updates, newer issues are picked out here. Roles
+    // aren't reported, only bots are told apart.
+    async listRecentIssues(owner, repo, since, limit) {
+      const { data } = await client.request<GiteaIssue[]>('GET', `${repoPath(owner, repo)}/issues`, {
+        query: { state: 'all', type: 'issues', since, limit: Math.min(limit, PROVIDER_DEFAULTS.gitea.PAGE_SIZE) }
+      });
+      return data
+        .filter(issue => new Date(issue.created_at).getTime() >= new Date(since).getTime())
+        .map(issue => ({
+          number: issue.number,
+          created_at: issue.created_at,
+          comments: issue.comments,
+          author: issue.user.login,
+          role: guessAuthorRole(issue.user.login)
+        }));
+    },
+
+    async listIssueComments(owner, repo, issueNumber, limit) {
+      const { data } = await client.request<Array<{ created_at: string; user: { login: string } }>>(
+        'GET',
+        `${repoPath(owner, repo)}/issues/${issueNumber}/comments`,
+        { query: { limit } }
+      );
+      return data.map(comment => ({
+        author: comment.user.login,
+        created_at: comment.created_at,
+        role: guessAuthorRole(comment.user.login)
+      }));
+    },
+
+    async listClosedPullRequests(owner, repo, limit) {
+      const { data } = await client.request<GiteaPullRequest[]>('GET', `${repoPath(owner, repo)}/pulls`, {
+        query: { state: 'closed', sort: 'recentupdate', limit: Math.min(limit, PROVIDER_DEFAULTS.gitea.PAGE_SIZE) }
+      });
+      return data.map(pr => ({
+        number: pr.number,
+        created_at: pr.created_at,
+        merged_at: pr.merged_at,
+        closed_at: pr.closed_at,
+        author: pr.user.login,
+        role: guessAuthorRole(pr.user.login)
+      }));
+    },
+
+    // Pending reviews are drafts nobody else sees yet
+    async listPullRequestReviews(owner, repo, prNumber) {
+      const { data } = await client.request<GiteaReview[]>(
+        'GET',
+        `${repoPath(owner, repo)}/pulls/${prNumber}/reviews`,
+        { query: { limit: PROVIDER_DEFAULTS.gitea.PAGE_SIZE } }
+      );
+      return data
+        .filter(review => review.state !== 'PENDING' && review.user)
+        .map(review => ({
+          author: review.user!.login,
+          created_at: review.submitted_at,
+          role: guessAuthorRole(review.user!.login)
+        }));
+    },
+
+    async getLastCommitDate(owner, repo) {
+      try {
+        const { data } = await client.request<GiteaCommit[]>('GET', `${repoPath(owner, repo)}/commits`, {
+          query: { limit: 1, stat: false, verification: false, files: false }
+        });
+        return data.length > 0 ? data[0].commit.author?.date || data[0].created || null : null;
+      } catch (error) {
+        // Empty repositories answer 409
+        if ((error as { status?: number }).status === 409) return null;
+        throw error;
+      }
+    },
+
+    async hasFile(owner, repo, path) {
+      try {
+        await client.request('GET', `${repoPath(owner, repo)}/contents/${encodeURIComponent(path)}`);
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    // No contributors endpoint
+    async countContributors() {
+      return null;
+    },
+
+    // No weekly commit statistics
+    async getCommitActivity() {
+      return null;
+    },
+
+    async listRecentCommits(owner, repo, since, limit) {
+      try {
+        const { data } = await client.request<GiteaCommit[]>('GET', `${repoPath(owner, repo)}/commits`, {
+          query: { since, limit: Math.min(limit, PROVIDER_DEFAULTS.gitea.PAGE_SIZE), stat: false, verification: false, files: false }
+        });
+        // Older versions ignore since
+        return data
+          .map(commit => ({
+            author: commit.author?.login || commit.commit.author?.email || commit.commit.author?.name || 'unknown',
+            date: commit.commit.author?.date || commit.created || since
+          }))
+          .filter(commit => new Date(commit.date).getTime() >= new Date(since).getTime());
+      } catch (error) {
+        if ((error as { status?: number }).status === 409) return [];
+        throw error;
+      }
+    },
+
+    async forkRepo(owner, repo) {
+      await client.request('POST', `${repoPath(owner, repo)}/forks`, { body: {} });
+    },
+
+    async starRepo(owner, repo) {
+      await client.request('PUT', `/user/starred/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+    },
+
+    async unstarRepo(owner, repo) {
+      await client.request('DELETE', `/user/starred/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+    },
+
+    async watchRepo(owner, repo) {
+      await client.request('PUT', `${repoPath(owner, repo)}/subscription`);
+    },
+
+    // 204 when starred, 404 when not
+    async isStarred(owner, repo) {
+      try {
+        await client.request('GET', `/user/starred/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async isWatching(owner, repo) {
+      try {
+        const { data } = await client.request<{ subscribed: boolean }>('GET', `${repoPath(owner, repo)}/subscription`);
+        return data.subscribed;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    // Token scopes aren't exposed
+    async getAuthenticatedUser() {
+      const { data } = await client.request<{ login: string }>('GET', '/user');
+      return { login: data.login, scopes: null };
+    }
+  };
+}
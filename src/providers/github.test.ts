@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchQuery } from './github.js';
+import type { SearchParams } from '../types/index.js';
+
+const base: SearchParams = {
+  keywords: 'x',
+  languages: [],
+  minStars: 100,
+  maxResults: 30,
+  license: null,
+  minForks: null,
+  requireGoodFirstIssues: false
+};
+
+describe('buildSearchQuery', () => {
+  it('asks for stars and good first issues', () => {
+    assert.equal(
+      buildSearchQuery({ ...base, keywords: 'parser', requireGoodFirstIssues: true }),
+      'parser stars:>100 good-first-issues:>1'
+    );
+  });
+
+  it('adds topic, organization and license qualifiers', () => {
+    const query = buildSearchQuery({
+      ...base,
+      keywords: 'cli',
+      minStars: 50,
+      license: 'mit',
+      minForks: 5,
+      topics: ['terminal'],
+      excludeTopics: ['deprecated'],
+      excludeOrgs: ['microsoft']
+    });
+    assert.equal(query, 'cli stars:>50 license:mit forks:>5 topic:terminal -topic:deprecated -org:microsoft');
+  });
+
+  it('asks for forks only when the type filters leave them in', () => {
+    assert.equal(buildSearchQuery({ ...base, excludeForks: false }), 'x stars:>100 fork:true');
+    assert.equal(buildSearchQuery({ ...base, excludeForks: true }), 'x stars:>100');
+    assert.equal(buildSearchQuery(base), 'x stars:>100');
+  });
+
+  it('excludes archived, mirror and template repositories', () => {
+    const query = buildSearchQuery({ ...base, excludeArchived: true, excludeMirrors: true, excludeTemplates: true });
+    assert.equal(query, 'x stars:>100 archived:false mirror:false template:false');
+  });
+
+  it('turns sizes into a range or a bound', () => {
+    assert.equal(buildSearchQuery({ ...base, minSize: 100, maxSize: 5000 }), 'x stars:>100 size:100..5000');
+    assert.equal(buildSearchQuery({ ...base, minSize: 100 }), 'x stars:>100 size:>=100');
+    assert.equal(buildSearchQuery({ ...base, maxSize: 5000 }), 'x stars:>100 size:<=5000');
+  });
+});
@@ -0,0 +1,380 @@
+import { COMMIT_ACTIVITY, DEFAULT_CONFIG, DEFAULT_HOST, PROVIDER_DEFAULTS, SEARCH_LIMITS } from '../config.js';
+import { buildLanguageQualifier } from '../utils/languages.js';
+import { getTokenEnv } from '../utils/credentials.js';
+import { isNotFound } from './rest.js';
+import type {
+  OctokitInstance,
+  ProviderConfig,
+  RepoProvider,
+  AuthorRole,
+  SearchParams,
+  GitHubRepo,
+  GoodFirstIssue
+} from '../types/index.js';
+
+/**
+ * Build GitHub search query from search parameters
+ */
+export function buildSearchQuery(searchParams: SearchParams): string {
+  const {
+    keywords,
+    languages,
+    minStars = 100,
+    license = null,
+    minForks = null,
+    requireGoodFirstIssues = true,
+    topics = [],
+    excludeTopics = [],
+    excludeOrgs = [],
+    excludeArchived = false,
+    excludeForks,
+    excludeMirrors = false,
+    excludeTemplates = false,
+    minSize = null,
+    maxSize = null
+  } = searchParams;
+
+  let query = `${keywords} stars:>${minStars}`;
+
+  if (languages.length > 0) {
+    query += ` ${buildLanguageQualifier(languages)}`;
+  }
+
+  if (requireGoodFirstIssues) {
+    query += ' good-first-issues:>1';
+  }
+
+  if (license) {
+    query += ` license:${license}`;
+  }
+
+  if (minForks) {
+    query += ` forks:>${minForks}`;
+  }
+
+  topics.forEach(topic => {
+    query += ` topic:${topic}`;
+  });
+
+  excludeTopics.forEach(topic => {
+    query += ` -topic:${topic}`;
+  });
+
+  excludeOrgs.forEach(org => {
+    query += ` -org:${org}`;
+  });
+
+  if (excludeArchived) {
+    query += ' archived:false';
+  }
+
+  // Search leaves forks out unless asked for with fork:true, so they're
+  // asked for when the type filters were set without excluding them
+  if (excludeForks === false) {
+    query += ' fork:true';
+  }
+
+  if (excludeMirrors) {
+    query += ' mirror:false';
+  }
+
+  if (excludeTemplates) {
+    query += ' template:false';
+  }
+
+  // Repository size is in KB
+  if (minSize && maxSize) {
+    query += ` size:${minSize}..${maxSize}`;
+  } else if (minSize) {
+    query += ` size:>=${minSize}`;
+  } else if (maxSize) {
+    query += ` size:<=${maxSize}`;
+  }
+
+  return query;
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+// Author associations of people who can triage and merge
+const MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+function getAuthorRole(user: { login: string; type?: string } | null, association: string): AuthorRole {
+  if (user && (user.type === 'Bot' || user.login.endsWith('[bot]'))) {
+    return 'bot';
+  }
+  return MAINTAINER_ASSOCIATIONS.includes(association) ? 'maintainer' : 'contributor';
+}
+
+/**
+ * REST API base of an Enterprise Server host, undefined for github.com
+ */
+export function getGitHubApiUrl(config: ProviderConfig): string | undefined {
+  if (config.host === DEFAULT_HOST) {
+    return undefined;
+  }
+  const webUrl = (config.url || `https://${config.host}`).replace(/\/+$/, '');
+  return webUrl + PROVIDER_DEFAULTS.github.API_PATH;
+}
+
+/**
+ * GitHub or an Enterprise Server host behind an Octokit instance, so the
+ * response cache and fixtures see every request. The token, if any, is
+ * the Octokit's.
+ */
+export function createGitHubProvider(
+  octokit: OctokitInstance,
+  config: ProviderConfig,
+  authenticated: boolean
+): RepoProvider {
+  const tokenEnv = getTokenEnv(config);
+
+  return {
+    kind: 'github',
+    host: config.host,
+    tokenEnv,
+    authenticated,
+    pageSize: PROVIDER_DEFAULTS.github.PAGE_SIZE,
+
+    describeSearch(params) {
+      return buildSearchQuery(params);
+    },
+
+    // The search syntax covers every filter
+    ignoredFilters() {
+      return [];
+    },
+
+    async searchRepos(params, page, perPage) {
+      const sort = params.sort || DEFAULT_CONFIG.sort;
+      const { data } = await octokit.rest.search.repos({
+        q: buildSearchQuery(params),
+        // Best match is GitHub's default relevance order, requested by omitting sort
+        ...(sort !== 'best-match' && { sort, order: 'desc' as const }),
+        per_page: perPage,
+        page
+      });
+      return {
+        totalCount: data.total_count,
+        fetched: data.items.length,
+        repos: data.items as GitHubRepo[]
+      };
+    },
+
+    async getRepo(owner, repo) {
+      const { data } = await octokit.rest.repos.get({ owner, repo });
+      return data as GitHubRepo;
+    },
+
+    async listGoodFirstIssues(owner, repo, labels, limit) {
+      const { data } = await octokit.rest.issues.listForRepo({
+        owner,
+        repo,
+        labels: labels.join(','),
+        state: 'open',
+        per_page: limit
+      });
+      return data as GoodFirstIssue[];
+    },
+
+    getIssuesUrl(repoUrl, label) {
+      return `${repoUrl}/issues?q=${encodeURIComponent(`is:issue is:open label:"${label}"`)}`;
+    },
+
+    // Pull requests come with the issues, a full page leaves enough after dropping them
+    async listRecentIssues(owner, repo, since, limit) {
+      const { data } = await octokit.rest.issues.listForRepo({
+        owner,
+        repo,
+        state: 'all',
+        since,
+        per_page: SEARCH_LIMITS.PAGE_SIZE,
+        sort: 'created',
+        direction: 'desc'
+      });
+      return data
+        .filter(issue => !issue.pull_request && issue.created_at >= since)
+        .slice(0, limit)
+        .map(issue => ({
+          number: issue.number,
+          created_at: issue.created_at,
+          comments: issue.comments,
+          author: issue.user?.login || 'ghost',
+          role: getAuthorRole(issue.user, issue.author_association)
+        }));
+    },
+
+    async listIssueComments(owner, repo, issueNumber, limit) {
+      const { data } = await octokit.rest.issues.listComments({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: limit
+      });
+      return data.map(comment => ({
+        author: comment.user?.login || 'ghost',
+        created_at: comment.created_at,
+        role: getAuthorRole(comment.user, comment.author_association)
+      }));
+    },
+
+    async listClosedPullRequests(owner, repo, limit) {
+      const { data } = await octokit.rest.pulls.list({
+        owner,
+        repo,
+        state: 'closed',
+        per_page: limit,
+        sort: 'updated',
+        direction: 'desc'
+      });
+      return data.map(pr => ({
+        number: pr.number,
+        created_at: pr.created_at,
+        merged_at: pr.merged_at,
+        closed_at: pr.closed_at,
+        author: pr.user?.login || 'ghost',
+        role: getAuthorRole(pr.user, pr.author_association)
+      }));
+    },
+
+    // Pending reviews have no submission date yet
+    async listPullRequestReviews(owner, repo, prNumber) {
+      const { data } = await octokit.rest.pulls.listReviews({
+        owner,
+        repo,
+        pull_number: prNumber,
+        per_page: SEARCH_LIMITS.PAGE_SIZE
+      });
+      return data
+        .filter(review => review.submitted_at)
+        .map(review => ({
+          author: review.user?.login || 'ghost',
+          created_at: review.submitted_at!,
+          role: getAuthorRole(review.user, review.author_association)
+        }));
+    },
+
+    async getLastCommitDate(owner, repo) {
+      try {
+        const { data } = await octokit.rest.repos.listCommits({ owner, repo, per_page: 1 });
+        if (data.length === 0) {
+          return null;
+        }
+        return data[0].commit.author?.date || new Date().toISOString();
+      } catch (error) {
+        // Empty repositories answer 409
+        if ((error as { status?: number }).status === 409) return null;
+        throw error;
+      }
+    },
+
+    async hasFile(owner, repo, path) {
+      try {
+        await octokit.rest.repos.getContent({ owner, repo, path });
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    // One contributor per page, so the last page in the Link header is the count
+    async countContributors(owner, repo) {
+      try {
+        const { data, headers } = await octokit.rest.repos.listContributors({ owner, repo, per_page: 1, anon: 'true' });
+        const last = headers.link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+        return last ? Number(last[1]) : (Array.isArray(data) ? data.length : 0);
+      } catch (error) {
+        // Histories too large to list contributors for
+        const { status, message } = error as { status?: number; message?: string };
+        if (status === 403 && /too large/i.test(message || '')) return null;
+        throw error;
+      }
+    },
+
+    // The stats endpoints answer 202 with no data while GitHub computes
+    // them in the background, so ask again with growing delays
+    async getCommitActivity(owner, repo) {
+      for (let attempt = 1; attempt <= COMMIT_ACTIVITY.COMPUTE_ATTEMPTS; attempt++) {
+        const { status, data } = await octokit.rest.repos.getCommitActivityStats({ owner, repo });
+        if (status !== 202) {
+          // Empty repositories answer 204 with no body
+          return Array.isArray(data) && data.length > 0
+            ? data.map(week => week.total).slice(-COMMIT_ACTIVITY.WEEKS)
+            : new Array(COMMIT_ACTIVITY.WEEKS).fill(0);
+        }
+        if (attempt < COMMIT_ACTIVITY.COMPUTE_ATTEMPTS) {
+          await sleep(COMMIT_ACTIVITY.COMPUTE_DELAY * Math.pow(2, attempt - 1));
+        }
+      }
+
+      const error: Error & { status?: number } = new Error('GitHub is still computing commit activity, try again in a minute');
+      error.status = 202;
+      throw error;
+    },
+
+    async listRecentCommits(owner, repo, since, limit) {
+      try {
+        const { data } = await octokit.rest.repos.listCommits({ owner, repo, since, per_page: limit });
+        return data.map(commit => ({
+          author: commit.author?.login || commit.commit.author?.email || commit.commit.author?.name || 'unknown',
+          date: commit.commit.author?.date || since
+        }));
+      } catch (error) {
+        // Empty repositories answer 409
+        if ((error as { status?: number }).status === 409) return [];
+        throw error;
+      }
+    },
+
+    async forkRepo(owner, repo) {
+      await octokit.rest.repos.createFork({ owner, repo });
+    },
+
+    async starRepo(owner, repo) {
+      await octokit.rest.activity.starRepoForAuthenticatedUser({ owner, repo });
+    },
+
+    async unstarRepo(owner, repo) {
+      await octokit.rest.activity.unstarRepoForAuthenticatedUser({ owner, repo });
+    },
+
+    async watchRepo(owner, repo) {
+      await octokit.rest.activity.setRepoSubscription({ owner, repo, subscribed: true });
+    },
+
+    // 204 when starred, 404 when not
+    async isStarred(owner, repo) {
+      try {
+        await octokit.rest.activity.checkRepoIsStarredByAuthenticatedUser({ owner, repo });
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async isWatching(owner, repo) {
+      try {
+        const { data } = await octokit.rest.activity.getRepoSubscription({ owner, repo });
+        return data.subscribed;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    // Classic tokens list their scopes in a header, fine-grained ones don't
+    async getAuthenticatedUser() {
+      const { data, headers } = await octokit.rest.users.getAuthenticated();
+      const scopes = headers['x-oauth-scopes'];
+      return {
+        login: data.login,
+        scopes: typeof scopes === 'string'
+          ? scopes.split(',').map(scope => scope.trim()).filter(scope => scope.length > 0)
+          : null
+      };
+    }
+  };
+}
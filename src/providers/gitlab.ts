@@ -0,0 +1,349 @@
+import { DEFAULT_CONFIG, PROVIDER_DEFAULTS } from '../config.js';
+import { getTokenEnv, findToken } from '../utils/credentials.js';
+import { createRestClient, guessAuthorRole, isNotFound } from './rest.js';
+import { getOptionalFilters, matchesCommonFilters } from './filters.js';
+import type { SearchFilterName } from './filters.js';
+import type {
+  RepoProvider,
+  ProviderConfig,
+  SearchParams,
+  SearchSort,
+  GitHubRepo
+} from '../types/index.js';
+
+/**
+ * GitLab over the v4 REST API. Projects live in namespaces that can be
+ * nested, so the owner of group/subgroup/project is group/subgroup.
+ */
+
+interface GitLabProject {
+  path: string;
+  path_with_namespace: string;
+  namespace: { full_path: string };
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  web_url: string;
+  open_issues_count?: number; // missing when issues are disabled
+  topics?: string[];
+  tag_list?: string[];        // topics before GitLab 14
+  license?: { name: string } | null;
+  archived?: boolean;
+  forked_from_project?: unknown;
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  web_url: string;
+  created_at: string;
+  user_notes_count: number;
+  author: { username: string };
+}
+
+interface GitLabNote {
+  created_at: string;
+  system: boolean; // label changes, assignments and other events
+  author: { username: string };
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  state: string;
+  created_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  author: { username: string };
+}
+
+const SORT_ORDER: Record<SearchSort, string> = {
+  'stars': 'star_count',
+  'forks': 'star_count', // projects can't be ordered by forks
+  'help-wanted-issues': 'star_count',
+  'updated': 'last_activity_at',
+  'best-match': 'similarity'
+};
+
+// Project listings carry no license, size, mirror or template data
+const UNSUPPORTED_FILTERS: SearchFilterName[] = ['license', 'size', 'mirrors', 'templates', 'good first issues'];
+
+function toRepo(project: GitLabProject, language: string | null): GitHubRepo {
+  return {
+    full_name: project.path_with_namespace,
+    name: project.path,
+    owner: { login: project.namespace.full_path },
+    description: project.description,
+    stargazers_count: project.star_count,
+    language,
+    html_url: project.web_url,
+    open_issues_count: project.open_issues_count ?? 0,
+    forks_count: project.forks_count,
+    topics: project.topics ?? project.tag_list ?? [],
+    license: project.license ?? null,
+    archived: project.archived,
+    fork: project.forked_from_project !== undefined
+  };
+}
+
+function buildSearchRequest(params: SearchParams, page: number, perPage: number): Record<string, string | number | boolean | undefined> {
+  const sort = params.sort || DEFAULT_CONFIG.sort;
+  // Similarity needs keywords to compare with
+  const orderBy = SORT_ORDER[sort] === 'similarity' && !params.keywords ? 'star_count' : SORT_ORDER[sort];
+  return {
+    search: params.keywords || undefined,
+    order_by: orderBy,
+    sort: 'desc',
+    topic: params.topics?.length ? params.topics.join(',') : undefined,
+    // Only one language can be asked for, several are filtered afterwards
+    with_programming_language: params.languages.length === 1 ? params.languages[0] : undefined,
+    archived: params.excludeArchived ? false : undefined,
+    per_page: perPage,
+    page
+  };
+}
+
+/**
+ * Create a provider for a GitLab host, with the token found for it unless
+ * one is given, null for none
+ */
+export function createGitLabProvider(
+  config: ProviderConfig,
+  token: string | null = findToken(config)?.token ?? null
+): RepoProvider {
+  const webUrl = (config.url || `https://${config.host}`).replace(/\/+$/, '');
+  const tokenEnv = getTokenEnv(config);
+  const client = createRestClient(
+    webUrl + PROVIDER_DEFAULTS.gitlab.API_PATH,
+    token ? { authorization: `Bearer ${token}` } : {}
+  );
+
+  const projectPath = (owner: string, repo: string): string =>
+    `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+  const getUsername = async (): Promise<string> => {
+    const { data } = await client.request<{ username: string }>('GET', '/user');
+    return data.username;
+  };
+
+  // Largest share of the code, GitLab has no primary language field
+  const getMainLanguage = async (owner: string, repo: string): Promise<string | null> => {
+    const { data } = await client.request<Record<string, number>>('GET', `${projectPath(owner, repo)}/languages`);
+    const [main] = Object.entries(data || {}).sort(([, a], [, b]) => b - a);
+    return main ? main[0] : null;
+  };
+
+  return {
+    kind: 'gitlab',
+    host: config.host,
+    tokenEnv,
+    authenticated: Boolean(token),
+    pageSize: PROVIDER_DEFAULTS.gitlab.PAGE_SIZE,
+
+    describeSearch(params) {
+      const query = Object.entries(buildSearchRequest(params, 1, 1))
+        .filter(([name, value]) => value !== undefined && name !== 'page' && name !== 'per_page')
+        .map(([name, value]) => `${name}=${value}`);
+      return `${config.host} projects ${query.join(' ')}`;
+    },
+
+    ignoredFilters(params) {
+      return getOptionalFilters(params).filter(filter => UNSUPPORTED_FILTERS.includes(filter));
+    },
+
+    async searchRepos(params, page, perPage) {
+      const { data, headers } = await client.request<GitLabProject[]>('GET', '/projects', {
+        query: buildSearchRequest(params, page, perPage)
+      });
+      const language = params.languages.length === 1 ? params.languages[0] : null;
+      const repos = await Promise.all(data.map(async project =>
+        // Several languages need each project's own to filter on
+        toRepo(project, params.languages.length > 1
+          ? await getMainLanguage(project.namespace.full_path, project.path).catch(() => null)
+          : language)
+      ));
+
+      // GitLab leaves out the total for very large result sets
+      return {
+        totalCount: headers['x-total'] ? Number(headers['x-total']) : null,
+        fetched: data.length,
+        repos: repos.filter(repo => matchesCommonFilters(repo, params))
+      };
+    },
+
+    async getRepo(owner, repo) {
+      const [{ data }, language] = await Promise.all([
+        client.request<GitLabProject>('GET', projectPath(owner, repo), { query: { license: true } }),
+        getMainLanguage(owner, repo).catch(() => null)
+      ]);
+      return toRepo(data, language);
+    },
+
+    async listGoodFirstIssues(owner, repo, labels, limit) {
+      const { data } = await client.request<GitLabIssue[]>('GET', `${projectPath(owner, repo)}/issues`, {
+        query: { state: 'opened', labels: labels.join(','), per_page: limit }
+      });
+      return data.map(issue => ({
+        title: issue.title,
+        html_url: issue.web_url,
+        number: issue.iid,
+        created_at: issue.created_at,
+        comments: issue.user_notes_count
+      }));
+    },
+
+    getIssuesUrl(repoUrl, label) {
+      return `${repoUrl}/-/issues?state=opened&label_name[]=${encodeURIComponent(label)}`;
+    },
+
+    // Roles would take a members lookup per author, only bots are told apart
+    async listRecentIssues(owner, repo, since, limit) {
+      const { data } = await client.request<GitLabIssue[]>('GET', `${projectPath(owner, repo)}/issues`, {
+        query: { created_after: since, order_by: 'created_at', sort: 'desc', per_page: limit }
+      });
+      return data.map(issue => ({
+        number: issue.iid,
+        created_at: issue.created_at,
+        comments: issue.user_notes_count,
+        author: issue.author.username,
+        role: guessAuthorRole(issue.author.username)
+      }));
+    },
+
+    async listIssueComments(owner, repo, issueNumber, limit) {
+      const { data } = await client.request<GitLabNote[]>(
+        'GET',
+        `${projectPath(owner, repo)}/issues/${issueNumber}/notes`,
+        { query: { order_by: 'created_at', sort: 'asc', per_page: limit } }
+      );
+      return data
+        .filter(note => !note.system)
+        .map(note => ({
+          author: note.author.username,
+          created_at: note.created_at,
+          role: guessAuthorRole(note.author.username)
+        }));
+    },
+
+    async listClosedPullRequests(owner, repo, limit) {
+      // No state filter covers both merged and closed
+      const { data } = await client.request<GitLabMergeRequest[]>('GET', `${projectPath(owner, repo)}/merge_requests`, {
+        query: { order_by: 'updated_at', sort: 'desc', per_page: limit }
+      });
+      return data
+        .filter(mr => mr.state === 'merged' || mr.state === 'closed')
+        .map(mr => ({
+          number: mr.iid,
+          created_at: mr.created_at,
+          merged_at: mr.merged_at,
+          closed_at: mr.closed_at ?? mr.merged_at,
+          author: mr.author.username,
+          role: guessAuthorRole(mr.author.username)
+        }));
+    },
+
+    // Approvals carry no dates, the first discussion note stands in for a review
+    async listPullRequestReviews(owner, repo, prNumber) {
+      const { data } = await client.request<GitLabNote[]>(
+        'GET',
+        `${projectPath(owner, repo)}/merge_requests/${prNumber}/notes`,
+        { query: { order_by: 'created_at', sort: 'asc', per_page: PROVIDER_DEFAULTS.gitlab.PAGE_SIZE } }
+      );
+      return data
+        .filter(note => !note.system)
+        .map(note => ({
+          author: note.author.username,
+          created_at: note.created_at,
+          role: guessAuthorRole(note.author.username)
+        }));
+    },
+
+    async getLastCommitDate(owner, repo) {
+      const { data } = await client.request<Array<{ committed_date: string }>>(
+        'GET',
+        `${projectPath(owner, repo)}/repository/commits`,
+        { query: { per_page: 1 } }
+      );
+      return data.length > 0 ? data[0].committed_date : null;
+    },
+
+    async hasFile(owner, repo, path) {
+      try {
+        await client.request('GET', `${projectPath(owner, repo)}/repository/files/${encodeURIComponent(path)}`, {
+          query: { ref: 'HEAD' }
+        });
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async countContributors(owner, repo) {
+      const { headers } = await client.request<Array<{ name: string }>>(
+        'GET',
+        `${projectPath(owner, repo)}/repository/contributors`,
+        { query: { per_page: 1 } }
+      );
+      return headers['x-total'] ? Number(headers['x-total']) : null;
+    },
+
+    // No weekly commit statistics, counting them would take a year of commits
+    async getCommitActivity() {
+      return null;
+    },
+
+    async listRecentCommits(owner, repo, since, limit) {
+      const { data } = await client.request<Array<{ author_name: string; author_email: string; authored_date: string }>>(
+        'GET',
+        `${projectPath(owner, repo)}/repository/commits`,
+        { query: { since, per_page: limit } }
+      );
+      return data.map(commit => ({
+        author: commit.author_email || commit.author_name,
+        date: commit.authored_date
+      }));
+    },
+
+    async forkRepo(owner, repo) {
+      await client.request('POST', `${projectPath(owner, repo)}/fork`);
+    },
+
+    async starRepo(owner, repo) {
+      await client.request('POST', `${projectPath(owner, repo)}/star`);
+    },
+
+    async unstarRepo(owner, repo) {
+      await client.request('POST', `${projectPath(owner, repo)}/unstar`);
+    },
+
+    async watchRepo(owner, repo) {
+      await client.request('PUT', `${projectPath(owner, repo)}/notification_settings`, {
+        query: { level: 'watch' }
+      });
+    },
+
+    async isStarred(owner, repo) {
+      const username = await getUsername();
+      const { data } = await client.request<Array<{ user: { username: string } }>>(
+        'GET',
+        `${projectPath(owner, repo)}/starrers`,
+        { query: { search: username } }
+      );
+      return data.some(starrer => starrer.user.username === username);
+    },
+
+    async isWatching(owner, repo) {
+      const { data } = await client.request<{ level: string }>('GET', `${projectPath(owner, repo)}/notification_settings`);
+      return data.level === 'watch';
+    },
+
+    async getAuthenticatedUser() {
+      const login = await getUsername();
+      // Only personal access tokens can describe themselves
+      const scopes = await client.request<{ scopes: string[] }>('GET', '/personal_access_tokens/self')
+        .then(({ data }) => data.scopes)
+        .catch(() => null);
+      return { login, scopes };
+    }
+  };
+}
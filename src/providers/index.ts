@@ -0,0 +1,200 @@
+import { CONFIG_FILE, DEFAULT_HOST, GITHUB_ENTERPRISE, KNOWN_PROVIDERS } from '../config.js';
+import { createGitLabProvider } from './gitlab.js';
+import { createGiteaProvider } from './gitea.js';
+import type { ProviderConfig, RepoProvider, RepoRef, GitHubRepo } from '../types/index.js';
+
+/**
+ * Forges by host. github.com, gitlab.com and codeberg.org are known out of
+ * the box, other hosts come from "providers" in the config file or, for
+ * GitHub Enterprise Server, from GITPICK_GHES_HOSTS. Providers are created
+ * on first use, except GitHub ones which need an Octokit from the caller.
+ */
+
+let providerConfigs: ProviderConfig[] = [...KNOWN_PROVIDERS];
+const providers = new Map<string, RepoProvider>();
+
+function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+}
+
+function findProviderConfig(host: string): ProviderConfig | undefined {
+  const normalized = normalizeHost(host);
+  return providerConfigs.find(config => normalizeHost(config.host) === normalized);
+}
+
+/**
+ * Enterprise Server hosts listed in the environment, as hosts or web URLs
+ */
+function getEnvironmentHosts(): ProviderConfig[] {
+  const value = process.env[GITHUB_ENTERPRISE.HOSTS_ENV] || '';
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => ({
+      host: normalizeHost(entry),
+      kind: 'github' as const,
+      url: /^https?:\/\//.test(entry) ? entry : undefined
+    }));
+}
+
+/**
+ * Add hosts from the config file and the environment, the config file
+ * takes precedence over both and the environment over the known hosts
+ */
+export function configureProviders(configs: ProviderConfig[] = []): void {
+  const merged: ProviderConfig[] = [];
+  for (const config of [...configs, ...getEnvironmentHosts(), ...KNOWN_PROVIDERS]) {
+    if (!merged.some(existing => normalizeHost(existing.host) === normalizeHost(config.host))) {
+      merged.push(config);
+    }
+  }
+  providerConfigs = merged;
+}
+
+/**
+ * github.com and the Enterprise Server hosts, each needs its own Octokit
+ */
+export function getGitHubConfigs(): ProviderConfig[] {
+  return providerConfigs.filter(config => config.kind === 'github');
+}
+
+/**
+ * Every known and configured host
+ */
+export function getProviderConfigs(): ProviderConfig[] {
+  return [...providerConfigs];
+}
+
+/**
+ * Config of a host, undefined when it's unknown
+ */
+export function getProviderConfig(host: string): ProviderConfig | undefined {
+  return findProviderConfig(host);
+}
+
+/**
+ * Register a provider created elsewhere, like GitHub's on the shared Octokit
+ */
+export function registerProvider(provider: RepoProvider): void {
+  providers.set(normalizeHost(provider.host), provider);
+}
+
+/**
+ * Whether a host is known or configured
+ */
+export function isKnownHost(host: string): boolean {
+  return findProviderConfig(host) !== undefined;
+}
+
+/**
+ * Create a GitLab or Gitea provider, with the token found for the host
+ * unless one is given, null for none
+ */
+export function createProvider(config: ProviderConfig, token?: string | null): RepoProvider {
+  switch (config.kind) {
+    case 'gitlab':
+      return createGitLabProvider(config, token);
+    case 'gitea':
+      return createGiteaProvider(config, token);
+    default:
+      // GitHub providers are registered with their Octokit at startup
+      throw new Error(`No GitHub client registered for ${config.host}`);
+  }
+}
+
+/**
+ * Provider for a host, github.com by default
+ */
+export function getProvider(host: string = DEFAULT_HOST): RepoProvider {
+  const normalized = normalizeHost(host);
+  const existing = providers.get(normalized);
+  if (existing) {
+    return existing;
+  }
+
+  const config = findProviderConfig(normalized);
+  if (!config) {
+    throw new Error(`Unknown host ${host}, add it to "providers" in ${CONFIG_FILE}`);
+  }
+
+  const provider = createProvider(config);
+  providers.set(normalized, provider);
+  return provider;
+}
+
+/**
+ * Provider of a repository web URL
+ */
+export function getProviderForUrl(url: string): RepoProvider {
+  return getProvider(new URL(url).host);
+}
+
+/**
+ * Host for search params, github.com is left out so its searches keep the
+ * cache keys and history entries they always had
+ */
+export function toSearchHost(host: string | undefined): string | undefined {
+  if (!host) {
+    return undefined;
+  }
+  const normalized = normalizeHost(host);
+  return normalized === DEFAULT_HOST ? undefined : normalized;
+}
+
+/**
+ * Parse a repository URL or owner/repo name. Supported formats:
+ * - https://github.com/owner/repo
+ * - gitlab.com/group/subgroup/project
+ * - http://localhost:3000/owner/repo for a configured host
+ * - owner/repo, on github.com
+ * Returns null for unknown hosts.
+ */
+export function parseRepoUrl(url: string): RepoRef | null {
+  const cleaned = url.trim().replace(/^https?:\/\//, '');
+  const parts = cleaned.split('/').filter(p => p.length > 0);
+
+  // A first part that looks like a host is one, GitHub logins have no dots
+  const hasHost = parts.length > 0 && (isKnownHost(parts[0]) || (parts.length >= 3 && /[.:]/.test(parts[0])));
+  const host = hasHost ? normalizeHost(parts[0]) : DEFAULT_HOST;
+  const path = hasHost ? parts.slice(1) : parts;
+
+  const config = findProviderConfig(host);
+  if (!config) {
+    return null;
+  }
+
+  // GitLab ends the project path at /-/, anything after is a page of it
+  if (config.kind === 'gitlab') {
+    const end = path.indexOf('-');
+    const projectPath = end === -1 ? path : path.slice(0, end);
+    if (projectPath.length < 2) {
+      return null;
+    }
+    return {
+      host,
+      owner: projectPath.slice(0, -1).join('/'),
+      repo: projectPath[projectPath.length - 1].replace(/\.git$/, '')
+    };
+  }
+
+  if (path.length < 2) {
+    return null;
+  }
+  return {
+    host,
+    owner: path[0],
+    repo: path[1].replace(/\.git$/, '') // Remove .git if present
+  };
+}
+
+/**
+ * Reference to a repository, with the host its web URL points to
+ */
+export function getRepoRef(repo: GitHubRepo): RepoRef {
+  return {
+    host: normalizeHost(new URL(repo.html_url).host),
+    owner: repo.owner.login,
+    repo: repo.name
+  };
+}
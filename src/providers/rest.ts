@@ -0,0 +1,164 @@
+import { isOffline, createOfflineMissError } from '../utils/offline.js';
+import type { AuthorRole } from '../types/index.js';
+
+/**
+ * Minimal JSON client for forges without an SDK. Errors carry the HTTP
+ * status and response like Octokit's, so retry and error reporting treat
+ * every forge alike.
+ */
+
+type QueryValue = string | number | boolean | undefined;
+
+export interface RestResponse<T> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+export interface RestRequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+export interface RestClient {
+  request<T>(method: string, path: string, options?: RestRequestOptions): Promise<RestResponse<T>>;
+}
+
+interface RestError extends Error {
+  status?: number;
+  response?: RestResponse<unknown>;
+}
+
+export interface RestRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+type RestSend = (request: RestRequest) => Promise<RestResponse<unknown>>;
+type RestWrapper = (send: RestSend, request: RestRequest) => Promise<RestResponse<unknown>>;
+
+// Wrappers around every request of every client, the last one added runs first
+const wrappers: RestWrapper[] = [];
+
+/**
+ * Wrap the requests of all REST clients, like Octokit's request hook. The
+ * wrapper sees error statuses as responses, before they become errors.
+ */
+export function wrapRestRequests(wrapper: RestWrapper): void {
+  wrappers.push(wrapper);
+}
+
+function buildUrl(baseUrl: string, path: string, query: Record<string, QueryValue> = {}): string {
+  const url = new URL(baseUrl + path);
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, String(value));
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * GitLab sends { message } or { error }, with validation errors as objects
+ */
+function getErrorText(data: unknown, status: number): string {
+  const { message, error } = (data || {}) as { message?: unknown; error?: unknown };
+  const text = message ?? error;
+  if (typeof text === 'string') return text;
+  if (text) return JSON.stringify(text);
+  return `HTTP ${status}`;
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Send a request over the network
+ */
+async function send(request: RestRequest): Promise<RestResponse<unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body
+    });
+  } catch (error) {
+    // Same shape as Octokit's connection failures: a 500 without a response
+    const failure: RestError = new Error(`Request to ${request.url} failed: ${(error as Error).message}`);
+    failure.status = 500;
+    throw failure;
+  }
+
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    data: await readBody(response)
+  };
+}
+
+/**
+ * Create a client for an API base URL, e.g. https://gitlab.com/api/v4
+ */
+export function createRestClient(baseUrl: string, headers: Record<string, string>): RestClient {
+  return {
+    async request<T>(method: string, path: string, options: RestRequestOptions = {}): Promise<RestResponse<T>> {
+      const url = buildUrl(baseUrl, path, options.query);
+
+      if (isOffline()) {
+        throw createOfflineMissError(url);
+      }
+
+      const request: RestRequest = {
+        method,
+        url,
+        headers: {
+          accept: 'application/json',
+          ...(options.body !== undefined && { 'content-type': 'application/json' }),
+          ...headers
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body)
+      };
+      const wrapped = wrappers.reduce<RestSend>((next, wrapper) => req => wrapper(next, req), send);
+      const result = await wrapped(request) as RestResponse<T>;
+
+      // 304 is how GitLab answers starring an already starred project
+      const ok = (result.status >= 200 && result.status < 300) || result.status === 304;
+      if (!ok) {
+        const error: RestError = new Error(getErrorText(result.data, result.status));
+        error.status = result.status;
+        error.response = result;
+        throw error;
+      }
+
+      return result;
+    }
+  };
+}
+
+/**
+ * Whether an error is a 404, which forges use for missing files and
+ * "not starred"
+ */
+export function isNotFound(error: unknown): boolean {
+  return (error as RestError).status === 404;
+}
+
+/**
+ * Role of an author on forges that don't report roles, only bots stand
+ * out by name, like renovate-bot or dependabot[bot]
+ */
+export function guessAuthorRole(login: string): AuthorRole {
+  return /(^|[-_[])bot\]?$/i.test(login) ? 'bot' : 'unknown';
+}
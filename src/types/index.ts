@@ -1,15 +1,33 @@
 import { Octokit } from 'octokit';
 
+export type SearchSort = 'stars' | 'forks' | 'help-wanted-issues' | 'updated' | 'best-match';
+
+export type RankingStrategy = 'score' | 'stars' | 'freshness' | 'good-first-issues' | 'weighted';
+
 export interface SearchParams {
   keywords: string;
-  language: string;
+  languages: string[]; // empty = any language
   minStars: number;
   maxResults: number;
   license: string | null;
   minForks: number | null;
   requireGoodFirstIssues: boolean;
+  sort?: SearchSort;
+  ranking?: RankingStrategy;
+  topics?: string[];
+  excludeTopics?: string[];
+  excludeOrgs?: string[];
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  excludeMirrors?: boolean;
+  excludeTemplates?: boolean;
+  minSize?: number | null; // KB
+  maxSize?: number | null; // KB
+  host?: string; // forge to search, github.com when unset
 }
 
+export type RepoTypeExclusion = 'archived' | 'forks' | 'mirrors' | 'templates';
+
 export interface UserConfig {
   minStars: number;
   maxResults: number;
@@ -19,6 +37,15 @@ export interface UserConfig {
   cacheTTL: number;
   retryAttempts: number;
   retryDelay: number;
+  sort: SearchSort;
+  ranking: RankingStrategy;
+  analysisConcurrency: number;
+  cacheMaxSize: number;
+  issueSample: number;     // recent issues checked for maintainer responses
+  issueSampleDays: number; // only issues opened within this many days
+  cacheDir?: string;
+  providers?: ProviderConfig[];
+  customLanguages?: string[];
   searchHistory?: SearchHistoryEntry[];
 }
 
@@ -32,10 +59,137 @@ export interface CacheData<T = unknown> {
   data: T;
 }
 
+export interface CachedResponse {
+  timestamp: number;
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  link?: string; // pagination header
+  data: unknown;
+}
+
+export interface RepoCacheTTLs {
+  METADATA: number;
+  LAST_COMMIT: number;
+  GOOD_FIRST_ISSUES: number;
+  COMMUNITY_FILES: number;
+  CONTRIBUTORS: number;
+  COMMIT_ACTIVITY: number;
+  STATS: number;
+}
+
+export interface CommunityFiles {
+  hasContributing: boolean;
+  hasCodeOfConduct: boolean;
+}
+
+export interface RepoStats {
+  prStats: PRStats;
+  issueResponseStats: IssueResponseStats;
+}
+
+/** The fewest authors that together made 50% and 80% of recent commits */
+export interface BusFactor {
+  share50: number;
+  share80: number;
+  commits: number; // recent commits counted, bots left out
+  authors: number;
+}
+
+/** Direction of recent commit activity */
+export type Trend = 'up' | 'down' | 'stable';
+
+export interface ContributorStats {
+  count: number | null;        // null when the forge can't count them
+  busFactor: BusFactor | null; // null without recent commits
+}
+
+/** Parts of a repository analysis that are cached separately */
+export interface RepoCacheValues {
+  metadata: GitHubRepo;
+  lastCommit: string;
+  goodFirstIssues: GoodFirstIssue[];
+  communityFiles: CommunityFiles;
+  contributorStats: ContributorStats;
+  commitActivity: number[];
+  stats: RepoStats;
+}
+
+export type RepoCacheField = keyof RepoCacheValues;
+
+export type RepoCacheData = {
+  [K in RepoCacheField]?: { timestamp: number; value: RepoCacheValues[K] };
+} & {
+  name?: string; // owner/repo, file names are hashed
+};
+
 export interface CacheStats {
   files: number;
   size: number;
   sizeFormatted: string;
+  directory: string;
+  maxSizeFormatted: string;
+  byKind: Record<CacheEntryKind, number>;
+}
+
+export type CacheEntryKind = 'search' | 'response' | 'repo';
+
+// Stale entries are past their TTL but kept for revalidation and offline use
+export type CacheEntryStatus = 'fresh' | 'stale' | 'expired';
+
+export interface CacheEntryInfo {
+  file: string;
+  kind: CacheEntryKind;
+  description: string;
+  size: number;
+  age: number;      // milliseconds since the data was fetched
+  lastUsed: number; // epoch milliseconds
+  status: CacheEntryStatus;
+}
+
+export interface CacheOptions {
+  enabled?: boolean;
+  dir?: string;
+  maxSize?: number;
+  ttl?: number;
+}
+
+export interface CachePruneResult {
+  removed: number;
+  freed: number;
+}
+
+export interface CacheLimits {
+  STALE_MAX_AGE: number;
+  PRUNE_INTERVAL: number;
+  EVICT_TARGET: number;
+}
+
+/** Repository in GitHub's REST shape, other forges are mapped to it */
+export interface GitHubRepo {
+  full_name: string;
+  name: string;
+  owner: {
+    login: string;
+  };
+  description: string | null;
+  stargazers_count: number;
+  language: string | null;
+  html_url: string;
+  open_issues_count: number;
+  forks_count: number;
+  topics: string[];
+  license?: {
+    name: string;
+  } | null;
+  archived?: boolean;
+  fork?: boolean;
+}
+
+export interface RepoRef {
+  owner: string; // GitLab namespaces can be nested, e.g. group/subgroup
+  repo: string;
+  host?: string; // github.com when unset
 }
 
 export interface GoodFirstIssue {
@@ -46,14 +200,67 @@ export interface GoodFirstIssue {
   comments: number;
 }
 
+export interface IssueSearchParams {
+  keywords: string;
+  languages: string[]; // empty = any language
+  labels: string[]; // matched with OR
+  maxResults: number;
+  onlyUnassigned: boolean;
+}
+
+export interface IssueCandidate {
+  title: string;
+  html_url: string;
+  number: number;
+  repo: string; // owner/name
+  created_at: string;
+  updated_at: string;
+  comments: number;
+  assigned: boolean;
+  labels: string[];
+  repoScore?: number;
+  rank?: number;
+}
+
+export interface RepoDetails {
+  lastCommitDate: string | null;
+  goodFirstIssues: GoodFirstIssue[];
+  hasContributing: boolean;
+  hasCodeOfConduct: boolean;
+  failures?: RepoDetailFailures; // parts whose lookup failed, left empty above
+}
+
+/** Error messages of the detail lookups that failed */
+export type RepoDetailFailures = Partial<Record<'lastCommit' | 'goodFirstIssues' | 'communityFiles', string>>;
+
+export interface RepoBatchEntry {
+  repo: GitHubRepo;
+  details: RepoDetails;
+}
+
+/** How the pull requests of one group of authors fared */
+export interface PRGroupStats {
+  count: number;                   // pull requests in the sample
+  mergeRate: number;               // % merged
+  closedUnmergedRate: number;      // % closed without merging
+  medianFirstReview: number | null; // hours until someone other than the author reviewed
+  medianMergeTime: number | null;   // days
+}
+
 export interface PRStats {
   avgMergeTime: number | null;
   mergedCount: number;
+  newcomers: PRGroupStats | null;   // authors outside the project, null when the forge doesn't report roles
+  maintainers: PRGroupStats | null;
 }
 
+/** Time to the first maintainer response on issues opened by others, in hours */
 export interface IssueResponseStats {
   avgResponseTime: number | null;
-  responseRate: number;
+  medianResponseTime: number | null;
+  p90ResponseTime: number | null;
+  responseRate: number;   // % of sampled issues with a maintainer response
+  sampledIssues: number;
 }
 
 export interface RepoAnalysis {
@@ -69,12 +276,17 @@ export interface RepoAnalysis {
   hasContributing: boolean;
   hasCodeOfConduct: boolean;
   license: string | null;
-  contributorsCount: string | number | null;
+  contributorsCount: number | null;
+  busFactor: BusFactor | null;
+  commitActivity: number[] | null; // commits per week for the last 52 weeks, oldest first
   goodFirstIssues: GoodFirstIssue[];
   topics: string[];
   activityScore?: number;
   prStats?: PRStats;
   issueResponseStats?: IssueResponseStats;
+  errors?: string[];
+  dataAge?: number;                // offline only, ms since the oldest cached part was fetched
+  unknownFields?: RepoCacheField[]; // offline only, parts that were never cached
 }
 
 export interface LicenseOption {
@@ -95,6 +307,54 @@ export interface ScoreWeights {
   ISSUES: number;
   CONTRIBUTING: number;
   GOOD_FIRST_ISSUES: number;
+  NEWCOMER_PRS: number;
+}
+
+export interface SearchLimits {
+  PAGE_SIZE: number;
+  MAX_RESULTS: number;
+}
+
+export interface RankingWeights {
+  SCORE: number;
+  STARS: number;
+  FRESHNESS: number;
+  GOOD_FIRST_ISSUES: number;
+}
+
+export interface IssueRankWeights {
+  FRESHNESS: number;
+  COMMENTS: number;
+  UNASSIGNED: number;
+  REPO_SCORE: number;
+}
+
+export interface SimilarityWeights {
+  TOPIC_OVERLAP: number;
+  SCORE: number;
+}
+
+export interface SortOption {
+  name: string;
+  value: SearchSort;
+}
+
+export interface RepoTypeExclusionOption {
+  name: string;
+  value: RepoTypeExclusion;
+}
+
+export interface RankingOption {
+  name: string;
+  value: RankingStrategy;
+}
+
+export interface ExitCodes {
+  SUCCESS: number;
+  ERROR: number;
+  NO_RESULTS: number;
+  RATE_LIMITED: number;
+  AUTH_FAILED: number;
 }
 
 export interface FileOutputs {
@@ -106,11 +366,189 @@ export interface FileOutputs {
 
 export type OctokitInstance = Octokit;
 
+export type ProviderKind = 'github' | 'gitlab' | 'gitea';
+
+/** A forge host, Forgejo instances count as Gitea and Enterprise Server as GitHub */
+export interface ProviderConfig {
+  host: string;      // as it appears in repository URLs, e.g. gitlab.com or localhost:3000
+  kind: ProviderKind;
+  url?: string;      // web address, https://<host> by default
+  tokenEnv?: string; // environment variable holding the token
+}
+
+export interface ProviderDefaults {
+  TOKEN_ENV: string;
+  PAGE_SIZE: number;
+  API_PATH: string;
+}
+
+export interface GitHubEnterpriseDefaults {
+  HOSTS_ENV: string;
+  TOKEN_ENV: string;
+}
+
+export interface RepoSearchPage {
+  totalCount: number | null; // null when the forge doesn't tell
+  fetched: number;           // repositories on the page before client-side filters
+  repos: GitHubRepo[];
+}
+
+/** Role of an issue, pull request or comment author, unknown where the forge doesn't tell */
+export type AuthorRole = 'maintainer' | 'contributor' | 'bot' | 'unknown';
+
+export interface ProviderIssue {
+  number: number;
+  created_at: string;
+  comments: number;
+  author: string;
+  role: AuthorRole;
+}
+
+export interface ProviderComment {
+  author: string;
+  created_at: string;
+  role: AuthorRole;
+}
+
+export interface ProviderPullRequest {
+  number: number;
+  created_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  author: string;
+  role: AuthorRole;
+}
+
+export interface ProviderCommit {
+  author: string; // login, or email or name for commits not linked to an account
+  date: string;
+}
+
+/**
+ * Everything GitPick needs from a forge. Repositories and issues come back
+ * in GitHub's shape whatever the forge.
+ */
+export interface RepoProvider {
+  readonly kind: ProviderKind;
+  readonly host: string;
+  readonly tokenEnv: string;
+  readonly authenticated: boolean;
+  readonly pageSize: number;
+
+  describeSearch(params: SearchParams): string;
+  ignoredFilters(params: SearchParams): string[]; // given filters this forge can't apply
+  searchRepos(params: SearchParams, page: number, perPage: number): Promise<RepoSearchPage>;
+  getRepo(owner: string, repo: string): Promise<GitHubRepo>;
+
+  listGoodFirstIssues(owner: string, repo: string, labels: string[], limit: number): Promise<GoodFirstIssue[]>;
+  getIssuesUrl(repoUrl: string, label: string): string;
+  listRecentIssues(owner: string, repo: string, since: string, limit: number): Promise<ProviderIssue[]>; // newest first, no pull requests
+  listIssueComments(owner: string, repo: string, issueNumber: number, limit: number): Promise<ProviderComment[]>; // oldest first
+  listClosedPullRequests(owner: string, repo: string, limit: number): Promise<ProviderPullRequest[]>; // merged or closed, recently updated first
+  listPullRequestReviews(owner: string, repo: string, prNumber: number): Promise<ProviderComment[]>; // oldest first
+  getLastCommitDate(owner: string, repo: string): Promise<string | null>;
+  hasFile(owner: string, repo: string, path: string): Promise<boolean>;
+  countContributors(owner: string, repo: string): Promise<number | null>; // null when unsupported
+  getCommitActivity(owner: string, repo: string): Promise<number[] | null>; // commits per week, oldest first, null when unsupported
+  listRecentCommits(owner: string, repo: string, since: string, limit: number): Promise<ProviderCommit[]>;
+
+  forkRepo(owner: string, repo: string): Promise<void>;
+  starRepo(owner: string, repo: string): Promise<void>;
+  unstarRepo(owner: string, repo: string): Promise<void>;
+  watchRepo(owner: string, repo: string): Promise<void>;
+  isStarred(owner: string, repo: string): Promise<boolean>;
+  isWatching(owner: string, repo: string): Promise<boolean>;
+  getAuthenticatedUser(): Promise<AuthenticatedUser>;
+}
+
+export interface AuthenticatedUser {
+  login: string;
+  scopes: string[] | null; // null when the forge or token type doesn't report them
+}
+
+export type CredentialSource = 'env' | 'gitpick' | 'gh' | 'netrc';
+
+/** A token and where it was found */
+export interface ResolvedToken {
+  token: string;
+  source: CredentialSource;
+  location: string; // variable name or file path
+}
+
+/** Tokens saved by gitpick auth login, by host */
+export type StoredCredentials = Record<string, { token: string; login?: string }>;
+
+export interface FixtureEntry {
+  method: string;
+  url: string;
+  body?: string;   // GraphQL queries share one URL
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  message?: string; // error message for failed requests
+}
+
+export interface FixtureFile {
+  version: number;
+  recordedAt: string;           // the clock replays run on
+  authenticatedHosts: string[]; // hosts that had a token, replays act as if they still do
+  entries: FixtureEntry[];
+}
+
+export type RateLimitResource = 'core' | 'search' | 'graphql';
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: number; // epoch seconds
+}
+
+export type RequestCost = Partial<Record<RateLimitResource, number>>;
+
+export interface CostEstimateOptions {
+  batched: boolean;  // details come from GraphQL
+  advanced: boolean; // PR and issue response stats
+}
+
+export interface BudgetShortfall {
+  resource: RateLimitResource;
+  needed: number;
+  remaining: number;
+  reset: number;
+}
+
+export interface RateLimitSettings {
+  MAX_WAIT_SECONDS: number;
+  SECONDARY_RETRIES: number;
+  DEFAULT_SECONDARY_WAIT_SECONDS: number;
+}
+
+export interface BusFactorSettings {
+  WINDOW_DAYS: number;
+  MAX_COMMITS: number;
+}
+
+export interface CommitActivitySettings {
+  WEEKS: number;
+  TREND_WEEKS: number;
+  COMPUTE_ATTEMPTS: number;
+  COMPUTE_DELAY: number;
+}
+
+export interface RequestCosts {
+  SEARCH_PER_PAGE: number;
+  REST_PER_REPO: number;
+  BATCHED_REST_PER_REPO: number;
+  GRAPHQL_PER_BATCH: number;
+  ADVANCED_PER_REPO: number;
+}
+
 export type ExportFormat = 'json' | 'markdown' | 'csv' | 'html';
 
 export interface InquirerAnswers {
   keywords: string;
-  language: string;
+  languages: string[];
   license: string | null;
   minStars: number;
   minForks: number;
@@ -120,6 +558,15 @@ export interface InquirerAnswers {
   interactiveMode: boolean;
   requireGoodFirstIssues: boolean;
   showOnlyActive: boolean;
+  sort: SearchSort;
+  ranking: RankingStrategy;
+  configureFilters: boolean;
+  topics?: string;
+  excludeTopics?: string;
+  excludeOrgs?: string;
+  excludeRepoTypes?: RepoTypeExclusion[];
+  minSize?: number;
+  maxSize?: number;
 }
 
 export interface ExportFormatsAnswer {
@@ -131,5 +578,5 @@ export interface InteractiveChoiceValue {
 }
 
 export interface RepoActionAnswer {
-  repoAction: 'open-repo' | 'open-issues' | 'details' | 'back';
+  repoAction: 'open-repo' | 'open-issues' | 'details' | 'similar' | 'back';
 }
@@ -0,0 +1,103 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { Octokit } from 'octokit';
+import { createGitHubProvider } from '../providers/github.js';
+import { setClock } from './dateExpressions.js';
+import { installReplayer, loadFixtures } from './fixtures.js';
+import {
+  calculateBusFactor,
+  getActivityTrend,
+  getContributorStats,
+  getIssueResponseStats,
+  getPRStats
+} from './analytics.js';
+import type { RepoProvider } from '../types/index.js';
+
+// Recorded for octo/widget, tests run from dist/utils
+const FIXTURE = fileURLToPath(new URL('../../test/fixtures/analytics.json', import.meta.url));
+
+describe('calculateBusFactor', () => {
+  it('counts the fewest authors behind half and 80% of the commits', () => {
+    const authors = ['alice', 'alice', 'alice', 'alice', 'bob', 'bob', 'carol', 'dave', 'erin', 'frank'];
+    assert.deepEqual(calculateBusFactor(authors), { share50: 2, share80: 4, commits: 10, authors: 6 });
+  });
+
+  it('leaves bots out', () => {
+    const authors = ['dependabot[bot]', 'dependabot[bot]', 'dependabot[bot]', 'alice'];
+    assert.deepEqual(calculateBusFactor(authors), { share50: 1, share80: 1, commits: 1, authors: 1 });
+  });
+
+  it('is null without human commits', () => {
+    assert.equal(calculateBusFactor([]), null);
+    assert.equal(calculateBusFactor(['renovate[bot]']), null);
+  });
+});
+
+describe('getActivityTrend', () => {
+  const weeks = (before: number, recent: number): number[] =>
+    [...new Array(28).fill(50), ...new Array(12).fill(before), ...new Array(12).fill(recent)];
+
+  it('compares the last 12 weeks with the 12 before', () => {
+    assert.equal(getActivityTrend(weeks(10, 13)), 'up');
+    assert.equal(getActivityTrend(weeks(10, 7)), 'down');
+  });
+
+  it('counts a change under 25% as stable', () => {
+    assert.equal(getActivityTrend(weeks(10, 12)), 'stable');
+    assert.equal(getActivityTrend(weeks(10, 8)), 'stable');
+    assert.equal(getActivityTrend(new Array(52).fill(0)), 'stable');
+  });
+
+  it('treats any commits after a quiet stretch as a rise', () => {
+    assert.equal(getActivityTrend(weeks(0, 1)), 'up');
+  });
+});
+
+describe('analytics replayed from a fixture', () => {
+  let provider: RepoProvider;
+
+  before(() => {
+    const fixture = loadFixtures(FIXTURE);
+    // Date windows resolve as they did when the fixture was recorded
+    setClock(new Date(fixture.recordedAt));
+
+    const octokit = new Octokit({ throttle: { enabled: false } });
+    installReplayer([octokit], fixture);
+    provider = createGitHubProvider(octokit, { kind: 'github', host: 'github.com' }, false);
+  });
+
+  after(() => {
+    setClock(null);
+  });
+
+  it('splits pull requests into newcomers and maintainers, bots left out', async () => {
+    assert.deepEqual(await getPRStats(provider, 'octo', 'widget'), {
+      avgMergeTime: 1.2,
+      mergedCount: 3,
+      newcomers: { count: 2, mergeRate: 50, closedUnmergedRate: 50, medianFirstReview: 12, medianMergeTime: 2 },
+      maintainers: { count: 1, mergeRate: 100, closedUnmergedRate: 0, medianFirstReview: 6, medianMergeTime: 0.5 }
+    });
+  });
+
+  it('only counts maintainer comments on newcomer issues as responses', async () => {
+    assert.deepEqual(await getIssueResponseStats(provider, 'octo', 'widget'), {
+      avgResponseTime: 4,
+      medianResponseTime: 4,
+      p90ResponseTime: 4,
+      responseRate: 33,
+      sampledIssues: 3
+    });
+  });
+
+  it('counts contributors from the Link header and the bus factor of recent commits', async () => {
+    assert.deepEqual(await getContributorStats(provider, 'octo', 'widget'), {
+      count: 42,
+      busFactor: { share50: 1, share80: 2, commits: 5, authors: 3 }
+    });
+  });
+
+  it('fails on requests that were never recorded', async () => {
+    await assert.rejects(getPRStats(provider, 'octo', 'gadget'), /No recorded response for GET/);
+  });
+});
@@ -1,10 +1,25 @@
-import { ACTIVITY_THRESHOLDS, SCORE_WEIGHTS } from '../config.js';
+import {
+  ACTIVITY_THRESHOLDS,
+  SCORE_WEIGHTS,
+  BUS_FACTOR,
+  COMMIT_ACTIVITY,
+  DEFAULT_CONFIG,
+  ISSUE_COMMENTS_LIMIT,
+  PR_SAMPLE_SIZE,
+  MIN_NEWCOMER_PRS
+} from '../config.js';
 import { withRetry } from './retry.js';
+import { startOfDayAgo } from './dateExpressions.js';
 import type {
-  OctokitInstance,
+  RepoProvider,
   RepoAnalysis,
   PRStats,
-  IssueResponseStats
+  PRGroupStats,
+  ProviderPullRequest,
+  IssueResponseStats,
+  BusFactor,
+  ContributorStats,
+  Trend
 } from '../types/index.js';
 
 /**
@@ -55,6 +70,26 @@ function calculateIssuesScore(
   return Math.min(goodFirstScore + openIssuesScore, 10);
 }
 
+/**
+ * Calculate how welcoming a project is to newcomers from how their pull
+ * requests fare, half merge rate and half time to first review
+ */
+function calculateWelcomingScore(newcomers: PRGroupStats): number {
+  const mergeScore = newcomers.mergeRate / 10;
+
+  let reviewScore = 0;
+  const review = newcomers.medianFirstReview;
+  if (review !== null) {
+    if (review < 24) reviewScore = 10;
+    else if (review < 72) reviewScore = 8;
+    else if (review < 24 * 7) reviewScore = 5;
+    else if (review < 24 * 30) reviewScore = 3;
+    else reviewScore = 1;
+  }
+
+  return (mergeScore + reviewScore) / 2;
+}
+
 /**
  * Calculate overall activity score for a repository
  */
@@ -68,179 +103,285 @@ export function calculateOverallScore(repoData: RepoAnalysis): number {
   const contributingScore = repoData.hasContributing ? 10 : 0;
   const goodFirstIssuesScore = Math.min(repoData.goodFirstIssues.length * 2, 10);
 
-  const overall =
+  let overall =
     activityScore * SCORE_WEIGHTS.ACTIVITY +
     starsScore * SCORE_WEIGHTS.STARS +
     issuesScore * SCORE_WEIGHTS.ISSUES +
     contributingScore * SCORE_WEIGHTS.CONTRIBUTING +
     goodFirstIssuesScore * SCORE_WEIGHTS.GOOD_FIRST_ISSUES;
 
+  // Without advanced stats the score stays as it was
+  const newcomers = repoData.prStats?.newcomers;
+  if (newcomers && newcomers.count >= MIN_NEWCOMER_PRS) {
+    overall = overall * (1 - SCORE_WEIGHTS.NEWCOMER_PRS) + calculateWelcomingScore(newcomers) * SCORE_WEIGHTS.NEWCOMER_PRS;
+  }
+
   return Math.round(overall * 10) / 10;
 }
 
 /**
- * Get pull request statistics for a repository
+ * Nearest-rank percentile of values sorted ascending
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(index, 0), sorted.length - 1)];
+}
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Hours between two ISO dates
+function hoursBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Merge and review figures for the pull requests of one group of authors,
+ * null when the group has none
+ */
+function getPRGroupStats(
+  pullRequests: ProviderPullRequest[],
+  firstReviews: Map<number, number>
+): PRGroupStats | null {
+  if (pullRequests.length === 0) {
+    return null;
+  }
+
+  const merged = pullRequests.filter(pr => pr.merged_at);
+  const closedUnmerged = pullRequests.filter(pr => !pr.merged_at);
+  const reviewTimes = pullRequests
+    .filter(pr => firstReviews.has(pr.number))
+    .map(pr => firstReviews.get(pr.number)!)
+    .sort((a, b) => a - b);
+  const mergeTimes = merged
+    .map(pr => hoursBetween(pr.created_at, pr.merged_at!) / 24)
+    .sort((a, b) => a - b);
+
+  return {
+    count: pullRequests.length,
+    mergeRate: Math.round((merged.length / pullRequests.length) * 100),
+    closedUnmergedRate: Math.round((closedUnmerged.length / pullRequests.length) * 100),
+    medianFirstReview: reviewTimes.length > 0 ? round(percentile(reviewTimes, 50)) : null,
+    medianMergeTime: mergeTimes.length > 0 ? round(percentile(mergeTimes, 50)) : null
+  };
+}
+
+/**
+ * Get pull request statistics for a repository. Recently closed pull
+ * requests are split into those from maintainers and those from everyone
+ * else, bots left out. GitHub's FIRST_TIME_CONTRIBUTOR association turns
+ * into CONTRIBUTOR once a pull request is merged, so it can't tell
+ * first-timers apart after the fact.
  */
 export async function getPRStats(
-  octokit: OctokitInstance,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<PRStats> {
-  try {
-    const prStats = await withRetry(async () => {
-      // Get recent closed PRs to calculate average time to merge
-      const { data: closedPRs } = await octokit.rest.pulls.list({
-        owner,
-        repo,
-        state: 'closed',
-        per_page: 10,
-        sort: 'updated',
-        direction: 'desc'
-      });
-
-      const mergedPRs = closedPRs.filter(pr => pr.merged_at);
-
-      if (mergedPRs.length === 0) {
-        return {
-          avgMergeTime: null,
-          mergedCount: 0
-        };
-      }
-
-      const mergeTimes = mergedPRs.map(pr => {
-        const created = new Date(pr.created_at);
-        const merged = new Date(pr.merged_at!);
-        return (merged.getTime() - created.getTime()) / (1000 * 60 * 60 * 24); // days
-      });
+  return await withRetry(async () => {
+    // Open pull requests would count as unmerged
+    const pullRequests = (await provider.listClosedPullRequests(owner, repo, PR_SAMPLE_SIZE))
+      .filter(pr => pr.closed_at || pr.merged_at);
+    const newcomerPRs = pullRequests.filter(pr => pr.role === 'contributor');
+    const maintainerPRs = pullRequests.filter(pr => pr.role === 'maintainer');
 
-      const avgMergeTime = mergeTimes.reduce((a, b) => a + b, 0) / mergeTimes.length;
+    // Hours until someone other than the author reviewed, for grouped PRs only
+    const firstReviews = new Map<number, number>();
+    for (const pr of [...newcomerPRs, ...maintainerPRs]) {
+      const reviews = await provider.listPullRequestReviews(owner, repo, pr.number);
+      const review = reviews.find(review => review.author !== pr.author && review.role !== 'bot');
+      if (review) {
+        firstReviews.set(pr.number, hoursBetween(pr.created_at, review.created_at));
+      }
+    }
 
-      return {
-        avgMergeTime: Math.round(avgMergeTime * 10) / 10,
-        mergedCount: mergedPRs.length
-      };
-    }, 'Fetching PR statistics');
+    const mergeTimes = pullRequests
+      .filter(pr => pr.merged_at)
+      .map(pr => hoursBetween(pr.created_at, pr.merged_at!) / 24);
 
-    return prStats;
-  } catch (error) {
     return {
-      avgMergeTime: null,
-      mergedCount: 0
+      avgMergeTime: mergeTimes.length > 0 ? round(mergeTimes.reduce((a, b) => a + b, 0) / mergeTimes.length) : null,
+      mergedCount: mergeTimes.length,
+      newcomers: getPRGroupStats(newcomerPRs, firstReviews),
+      maintainers: getPRGroupStats(maintainerPRs, firstReviews)
     };
-  }
+  }, 'Fetching PR statistics');
+}
+
+// Issue sample for response statistics, set from user config in main()
+const issueSample = {
+  size: DEFAULT_CONFIG.issueSample,
+  days: DEFAULT_CONFIG.issueSampleDays
+};
+
+/**
+ * Apply the issue sample from user config
+ */
+export function configureIssueSample(size: number, days: number): void {
+  issueSample.size = size;
+  issueSample.days = days;
 }
 
 /**
- * Get issue response time statistics
+ * Get issue response time statistics. Only issues opened by people outside
+ * the project count, and only a maintainer's comment counts as a response.
+ * Bots and the issue author never do. Forges that don't report roles
+ * count any other person's comment.
  */
 export async function getIssueResponseStats(
-  octokit: OctokitInstance,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<IssueResponseStats> {
-  try {
-    const stats = await withRetry(async () => {
-      const { data: recentIssues } = await octokit.rest.issues.listForRepo({
-        owner,
-        repo,
-        state: 'all',
-        per_page: 20,
-        sort: 'updated',
-        direction: 'desc'
-      });
-
-      const responseTimes: number[] = [];
-
-      for (const issue of recentIssues) {
-        // Get first comment (response)
-        if (issue.comments > 0) {
-          const { data: comments } = await octokit.rest.issues.listComments({
-            owner,
-            repo,
-            issue_number: issue.number,
-            per_page: 1
-          });
-
-          if (comments.length > 0) {
-            const created = new Date(issue.created_at);
-            const firstResponse = new Date(comments[0].created_at);
-            const responseTime = (firstResponse.getTime() - created.getTime()) / (1000 * 60 * 60); // hours
-            responseTimes.push(responseTime);
-          }
-        }
+  const noResponses: IssueResponseStats = {
+    avgResponseTime: null,
+    medianResponseTime: null,
+    p90ResponseTime: null,
+    responseRate: 0,
+    sampledIssues: 0
+  };
+
+  return await withRetry(async () => {
+    const since = startOfDayAgo(issueSample.days);
+    const recentIssues = await provider.listRecentIssues(owner, repo, since, issueSample.size);
+    const newcomerIssues = recentIssues.filter(issue => issue.role !== 'maintainer' && issue.role !== 'bot');
+
+    const responseTimes: number[] = [];
+
+    for (const issue of newcomerIssues) {
+      if (issue.comments === 0) {
+        continue;
       }
 
-      if (responseTimes.length === 0) {
-        return {
-          avgResponseTime: null,
-          responseRate: 0
-        };
+      const comments = await provider.listIssueComments(owner, repo, issue.number, ISSUE_COMMENTS_LIMIT);
+      const response = comments.find(comment =>
+        comment.author !== issue.author &&
+        (comment.role === 'maintainer' || comment.role === 'unknown')
+      );
+
+      if (response) {
+        const created = new Date(issue.created_at);
+        const firstResponse = new Date(response.created_at);
+        responseTimes.push((firstResponse.getTime() - created.getTime()) / (1000 * 60 * 60)); // hours
       }
+    }
 
-      const avgResponseTime = responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length;
+    if (responseTimes.length === 0) {
+      return { ...noResponses, sampledIssues: newcomerIssues.length };
+    }
 
-      return {
-        avgResponseTime: Math.round(avgResponseTime * 10) / 10,
-        responseRate: Math.round((responseTimes.length / recentIssues.length) * 100)
-      };
-    }, 'Fetching issue response statistics');
+    const sorted = [...responseTimes].sort((a, b) => a - b);
+    const avgResponseTime = responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length;
 
-    return stats;
-  } catch (error) {
     return {
-      avgResponseTime: null,
-      responseRate: 0
+      avgResponseTime: round(avgResponseTime),
+      medianResponseTime: round(percentile(sorted, 50)),
+      p90ResponseTime: round(percentile(sorted, 90)),
+      responseRate: Math.round((responseTimes.length / newcomerIssues.length) * 100),
+      sampledIssues: newcomerIssues.length
     };
+  }, 'Fetching issue response statistics');
+}
+
+/**
+ * Fewest authors that together made a share of the commits, given commit
+ * counts sorted from the most active author down
+ */
+function authorsForShare(commitCounts: number[], share: number): number {
+  const total = commitCounts.reduce((a, b) => a + b, 0);
+  let sum = 0;
+
+  for (let i = 0; i < commitCounts.length; i++) {
+    sum += commitCounts[i];
+    if (sum >= total * share) {
+      return i + 1;
+    }
   }
+  return commitCounts.length;
 }
 
 /**
- * Get contributors count
+ * Bus factor from the authors of recent commits, one entry per commit.
+ * Bots like dependabot[bot] don't count.
  */
-export async function getContributorsCount(
-  octokit: OctokitInstance,
-  owner: string,
-  repo: string
-): Promise<string | null> {
-  try {
-    const count = await withRetry(async () => {
-      const { data: contributors } = await octokit.rest.repos.listContributors({
-        owner,
-        repo,
-        per_page: 1
-      });
-
-      // GitHub doesn't return total count directly, so we check the Link header
-      // For simplicity, we'll just return a rough estimate
-      return contributors.length > 0 ? '10+' : '0';
-    }, 'Fetching contributors count');
-
-    return count;
-  } catch (error) {
+export function calculateBusFactor(authors: string[]): BusFactor | null {
+  const humans = authors.filter(author => !author.endsWith('[bot]'));
+  if (humans.length === 0) {
     return null;
   }
+
+  const commitsByAuthor = new Map<string, number>();
+  for (const author of humans) {
+    commitsByAuthor.set(author, (commitsByAuthor.get(author) || 0) + 1);
+  }
+  const commitCounts = [...commitsByAuthor.values()].sort((a, b) => b - a);
+
+  return {
+    share50: authorsForShare(commitCounts, 0.5),
+    share80: authorsForShare(commitCounts, 0.8),
+    commits: humans.length,
+    authors: commitCounts.length
+  };
+}
+
+/**
+ * Get the contributor count and the bus factor of recent commits
+ */
+export async function getContributorStats(
+  provider: RepoProvider,
+  owner: string,
+  repo: string
+): Promise<ContributorStats> {
+  const since = startOfDayAgo(BUS_FACTOR.WINDOW_DAYS);
+
+  const [count, commits] = await Promise.all([
+    withRetry(() => provider.countContributors(owner, repo), 'Counting contributors'),
+    withRetry(() => provider.listRecentCommits(owner, repo, since, BUS_FACTOR.MAX_COMMITS), 'Fetching recent commits')
+  ]);
+
+  return {
+    count,
+    busFactor: calculateBusFactor(commits.map(commit => commit.author))
+  };
+}
+
+/**
+ * Get commits per week for the last year, null when the forge has no
+ * commit statistics
+ */
+export async function getCommitActivity(
+  provider: RepoProvider,
+  owner: string,
+  repo: string
+): Promise<number[] | null> {
+  return await withRetry(() => provider.getCommitActivity(owner, repo), 'Fetching commit activity');
+}
+
+/**
+ * Trend of weekly commits, the most recent weeks against the same number
+ * of weeks before them. A change under 25% either way counts as stable.
+ */
+export function getActivityTrend(weeks: number[]): Trend {
+  const recent = weeks.slice(-COMMIT_ACTIVITY.TREND_WEEKS).reduce((a, b) => a + b, 0);
+  const before = weeks
+    .slice(-2 * COMMIT_ACTIVITY.TREND_WEEKS, -COMMIT_ACTIVITY.TREND_WEEKS)
+    .reduce((a, b) => a + b, 0);
+
+  if (recent > before * 1.25) return 'up';
+  if (recent < before * 0.75) return 'down';
+  return 'stable';
 }
 
 /**
  * Check if repository has CODE_OF_CONDUCT.md
  */
 export async function hasCodeOfConduct(
-  octokit: OctokitInstance,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<boolean> {
-  try {
-    await withRetry(async () => {
-      await octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path: 'CODE_OF_CONDUCT.md'
-      });
-    }, 'Checking for CODE_OF_CONDUCT.md');
-    return true;
-  } catch {
-    return false;
-  }
+  return await withRetry(async () => {
+    return await provider.hasFile(owner, repo, 'CODE_OF_CONDUCT.md');
+  }, 'Checking for CODE_OF_CONDUCT.md');
 }
 
 /**
@@ -1,25 +1,195 @@
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import crypto from 'crypto';
-import { CACHE_DIR, DEFAULT_CONFIG } from '../config.js';
-import type { CacheData, CacheStats, SearchParams } from '../types/index.js';
+import { CACHE_DIR_NAME, CACHE_LIMITS, DEFAULT_CONFIG, DEFAULT_HOST, REPO_CACHE_TTL } from '../config.js';
+import { isOffline, goOffline, isNetworkError, createOfflineMissError } from './offline.js';
+import type {
+  CacheData,
+  CacheStats,
+  CachedResponse,
+  CacheEntryInfo,
+  CacheEntryKind,
+  CacheEntryStatus,
+  CacheOptions,
+  CachePruneResult,
+  OctokitInstance,
+  RepoCacheData,
+  RepoCacheField,
+  RepoCacheValues,
+  RepoRef,
+  SearchParams
+} from '../types/index.js';
+
+// Prefixes for GitHub responses cached by request URL and analyses cached
+// by repository, next to search results
+const RESPONSE_PREFIX = 'response-';
+const REPO_PREFIX = 'repo-';
+
+// Who is logged in, rate limits and star or watch state must always be
+// current. Paths are matched without the Enterprise Server /api/v3 prefix.
+const UNCACHED_PATHS = [
+  /^\/user(\/|$)/,
+  /^\/rate_limit$/,
+  /^\/repos\/[^/]+\/[^/]+\/subscription$/
+];
+
+// Touched after each background prune
+const PRUNE_MARKER = '.last-prune';
+
+const REPO_FIELD_TTLS: Record<RepoCacheField, number> = {
+  metadata: REPO_CACHE_TTL.METADATA,
+  lastCommit: REPO_CACHE_TTL.LAST_COMMIT,
+  goodFirstIssues: REPO_CACHE_TTL.GOOD_FIRST_ISSUES,
+  communityFiles: REPO_CACHE_TTL.COMMUNITY_FILES,
+  contributorStats: REPO_CACHE_TTL.CONTRIBUTORS,
+  commitActivity: REPO_CACHE_TTL.COMMIT_ACTIVITY,
+  stats: REPO_CACHE_TTL.STATS
+};
+
+/**
+ * XDG cache location, ~/.cache/gitpick unless XDG_CACHE_HOME is set
+ */
+function getDefaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, CACHE_DIR_NAME);
+}
+
+const settings: Required<CacheOptions> = {
+  enabled: true,
+  dir: getDefaultCacheDir(),
+  maxSize: DEFAULT_CONFIG.cacheMaxSize,
+  ttl: DEFAULT_CONFIG.cacheTTL
+};
+
+// Running total of the cache size, computed on the first write
+let knownSize: number | null = null;
+
+/**
+ * Apply cache location and limits from user config
+ */
+export function configureCache(options: CacheOptions): void {
+  if (options.enabled !== undefined) {
+    settings.enabled = options.enabled;
+  }
+  if (options.dir) {
+    settings.dir = path.resolve(options.dir.replace(/^~(?=$|[\\/])/, os.homedir()));
+  }
+  if (options.maxSize !== undefined) {
+    settings.maxSize = options.maxSize;
+  }
+  if (options.ttl !== undefined) {
+    settings.ttl = options.ttl;
+  }
+  knownSize = null;
+}
+
+/**
+ * Directory the cache is stored in
+ */
+export function getCacheDir(): string {
+  return settings.dir;
+}
 
 /**
  * Create cache directory if it doesn't exist
  */
 async function ensureCacheDir(): Promise<void> {
   try {
-    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.mkdir(settings.dir, { recursive: true });
   } catch (error) {
     // Directory might already exist
   }
 }
 
+/**
+ * Cache entry files, skipping the prune marker and anything else
+ */
+async function listEntryFiles(): Promise<string[]> {
+  const files = await fs.readdir(settings.dir);
+  return files.filter(file => file.endsWith('.json'));
+}
+
+/**
+ * Mark an entry as used, eviction removes the least recently used first
+ */
+async function touchEntry(filePath: string): Promise<void> {
+  const now = new Date();
+  await fs.utimes(filePath, now, now).catch(() => {});
+}
+
+/**
+ * Write an entry and evict old ones once the cache outgrows its max size
+ */
+async function writeEntry(filePath: string, content: string): Promise<void> {
+  await ensureCacheDir();
+
+  const previous = await fs.stat(filePath).then(stats => stats.size, () => 0);
+  await fs.writeFile(filePath, content);
+
+  if (knownSize === null) {
+    knownSize = await getDirectorySize();
+  } else {
+    knownSize += Buffer.byteLength(content) - previous;
+  }
+
+  if (knownSize > settings.maxSize) {
+    await evictLeastRecentlyUsed();
+  }
+}
+
+async function getDirectorySize(): Promise<number> {
+  let total = 0;
+  for (const file of await listEntryFiles()) {
+    const stats = await fs.stat(path.join(settings.dir, file)).catch(() => null);
+    total += stats ? stats.size : 0;
+  }
+  return total;
+}
+
+/**
+ * Remove least recently used entries until the cache is back under its target size
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const entries: Array<{ filePath: string; size: number; lastUsed: number }> = [];
+  for (const file of await listEntryFiles()) {
+    const filePath = path.join(settings.dir, file);
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (stats) {
+      entries.push({ filePath, size: stats.size, lastUsed: stats.mtimeMs });
+    }
+  }
+
+  entries.sort((a, b) => a.lastUsed - b.lastUsed);
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const target = settings.maxSize * CACHE_LIMITS.EVICT_TARGET;
+
+  for (const entry of entries) {
+    if (total <= target) {
+      break;
+    }
+    await fs.unlink(entry.filePath).catch(() => {});
+    total -= entry.size;
+  }
+
+  knownSize = total;
+}
+
 /**
  * Generate cache key from search parameters
  */
 function generateCacheKey(params: SearchParams): string {
-  const normalized = JSON.stringify(params, Object.keys(params).sort());
+  // Ranking only reorders analyzed results, the API response stays the same
+  const { ranking: _ranking, ...searchParams } = params;
+  const sorted = Object.fromEntries(
+    Object.keys(searchParams).sort().map(key => {
+      const value = searchParams[key as keyof typeof searchParams];
+      // Language, topic and org lists match the same repos in any order
+      return [key, Array.isArray(value) ? [...value].sort() : value];
+    })
+  );
+  const normalized = JSON.stringify(sorted);
   return crypto.createHash('md5').update(normalized).digest('hex');
 }
 
@@ -30,10 +200,14 @@ export async function getCache<T>(
   params: SearchParams,
   ttl: number = DEFAULT_CONFIG.cacheTTL
 ): Promise<T | null> {
+  if (!settings.enabled) {
+    return null;
+  }
+
   try {
     await ensureCacheDir();
     const key = generateCacheKey(params);
-    const cachePath = path.join(CACHE_DIR, `${key}.json`);
+    const cachePath = path.join(settings.dir, `${key}.json`);
 
     const data = await fs.readFile(cachePath, 'utf-8');
     const cached: CacheData<T> = JSON.parse(data);
@@ -41,17 +215,37 @@ export async function getCache<T>(
     const age = Date.now() - cached.timestamp;
 
     if (age < ttl) {
+      await touchEntry(cachePath);
       return cached.data;
     }
 
-    // Cache expired, delete it
-    await fs.unlink(cachePath).catch(() => {});
+    // Expired entries stay for offline use until pruned
     return null;
   } catch (error) {
     return null;
   }
 }
 
+/**
+ * Get cached search results however old they are, for offline use
+ */
+export async function getStaleCache<T>(
+  params: SearchParams
+): Promise<{ data: T; age: number } | null> {
+  if (!settings.enabled) {
+    return null;
+  }
+
+  try {
+    const cachePath = path.join(settings.dir, `${generateCacheKey(params)}.json`);
+    const cached: CacheData<T> = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+    await touchEntry(cachePath);
+    return { data: cached.data, age: Date.now() - cached.timestamp };
+  } catch (error) {
+    return null;
+  }
+}
+
 /**
  * Save data to cache
  */
@@ -59,10 +253,13 @@ export async function setCache<T>(
   params: SearchParams,
   data: T
 ): Promise<boolean> {
+  if (!settings.enabled) {
+    return false;
+  }
+
   try {
-    await ensureCacheDir();
     const key = generateCacheKey(params);
-    const cachePath = path.join(CACHE_DIR, `${key}.json`);
+    const cachePath = path.join(settings.dir, `${key}.json`);
 
     const cacheData: CacheData<T> = {
       timestamp: Date.now(),
@@ -70,57 +267,445 @@ export async function setCache<T>(
       data
     };
 
-    await fs.writeFile(cachePath, JSON.stringify(cacheData, null, 2));
+    await writeEntry(cachePath, JSON.stringify(cacheData, null, 2));
     return true;
   } catch (error) {
     return false;
   }
 }
 
+/**
+ * Cache file for a GitHub response. Responses depend on who asks, private
+ * repositories for one, so the token is part of the key.
+ */
+function getResponsePath(url: string, identity: string): string {
+  const key = crypto.createHash('md5').update(`${identity}\n${url}`).digest('hex');
+  return path.join(settings.dir, `${RESPONSE_PREFIX}${key}.json`);
+}
+
+/**
+ * Hash of the token an Octokit instance sends, "anonymous" without one
+ */
+async function getIdentity(octokit: OctokitInstance): Promise<string> {
+  const auth = await octokit.auth() as { token?: string };
+  return auth.token
+    ? crypto.createHash('sha256').update(auth.token).digest('hex').slice(0, 16)
+    : 'anonymous';
+}
+
+/**
+ * Whether a GET request must skip the response cache
+ */
+function isUncachedUrl(url: string): boolean {
+  const pathname = new URL(url).pathname.replace(/^\/api\/v3(?=\/)/, '');
+  return UNCACHED_PATHS.some(pattern => pattern.test(pathname));
+}
+
+/**
+ * Get a cached GitHub response, expired or not
+ */
+async function getCachedResponse(url: string, identity: string): Promise<CachedResponse | null> {
+  try {
+    const responsePath = getResponsePath(url, identity);
+    const data = await fs.readFile(responsePath, 'utf-8');
+    await touchEntry(responsePath);
+    return JSON.parse(data) as CachedResponse;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Save a GitHub response with its validators
+ */
+async function setCachedResponse(entry: CachedResponse, identity: string): Promise<void> {
+  try {
+    await writeEntry(getResponsePath(entry.url, identity), JSON.stringify(entry));
+  } catch (error) {
+    // Caching is best effort
+  }
+}
+
+/**
+ * Response headers as plain strings
+ */
+function readHeader(headers: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Cache GET responses of the Octokit instance, per token. Fresh entries
+ * are served without a request, expired ones are revalidated with
+ * If-None-Match and If-Modified-Since. A 304 reuses the stored body and
+ * doesn't count against the rate limit. Identity, rate limit and
+ * subscription endpoints are never cached.
+ */
+export function installResponseCache(
+  octokit: OctokitInstance,
+  ttl: number = DEFAULT_CONFIG.cacheTTL
+): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    const { method, url } = octokit.request.endpoint.parse(options);
+    if (method !== 'GET' || isUncachedUrl(url)) {
+      try {
+        return await request(options);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          goOffline('network');
+        }
+        throw error;
+      }
+    }
+
+    const identity = await getIdentity(octokit);
+    const cached = await getCachedResponse(url, identity);
+    const toResponse = (entry: CachedResponse) => ({
+      status: 200,
+      url: entry.url,
+      headers: entry.link ? { link: entry.link } : {},
+      data: entry.data
+    });
+
+    // Offline, any cached response beats none
+    if (cached && (isOffline() || Date.now() - cached.timestamp < ttl)) {
+      return toResponse(cached);
+    }
+    if (isOffline()) {
+      throw createOfflineMissError(url);
+    }
+
+    const validators: Record<string, string> = {};
+    if (cached?.etag) {
+      validators['if-none-match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      validators['if-modified-since'] = cached.lastModified;
+    }
+
+    // Inner hooks are bound to this options object, so set headers in place
+    Object.assign(options.headers, validators);
+
+    try {
+      const response = await request(options);
+
+      const headers = response.headers as Record<string, unknown>;
+      const etag = readHeader(headers, 'etag');
+      const lastModified = readHeader(headers, 'last-modified');
+
+      if (response.status === 200 && (etag || lastModified)) {
+        await setCachedResponse({
+          timestamp: Date.now(),
+          url,
+          etag,
+          lastModified,
+          link: readHeader(headers, 'link'),
+          data: response.data
+        }, identity);
+      }
+
+      return response;
+    } catch (error) {
+      // Octokit reports 304 Not Modified as an error
+      if (cached && (error as { status?: number }).status === 304) {
+        const refreshed: CachedResponse = { ...cached, timestamp: Date.now() };
+        await setCachedResponse(refreshed, identity);
+        return toResponse(refreshed);
+      }
+
+      if (isNetworkError(error)) {
+        goOffline('network');
+        if (cached) {
+          return toResponse(cached);
+        }
+        throw createOfflineMissError(url);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Name of a repository in the cache, prefixed with its host unless it is
+ * on github.com
+ */
+function getRepoCacheName({ owner, repo, host }: RepoRef): string {
+  return host && host !== DEFAULT_HOST ? `${host}/${owner}/${repo}` : `${owner}/${repo}`;
+}
+
+/**
+ * Cache file for a repository analysis, repository names are case-insensitive
+ */
+function getRepoCachePath(ref: RepoRef): string {
+  const key = crypto.createHash('md5').update(getRepoCacheName(ref).toLowerCase()).digest('hex');
+  return path.join(settings.dir, `${REPO_PREFIX}${key}.json`);
+}
+
+async function readRepoCache(ref: RepoRef): Promise<RepoCacheData> {
+  if (!settings.enabled) {
+    return {};
+  }
+
+  try {
+    const repoPath = getRepoCachePath(ref);
+    const data = await fs.readFile(repoPath, 'utf-8');
+    await touchEntry(repoPath);
+    return JSON.parse(data) as RepoCacheData;
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Get the cached parts of a repository analysis that are still within their TTL
+ */
+export async function getCachedRepoFields(ref: RepoRef): Promise<Partial<RepoCacheValues>> {
+  const cached = await readRepoCache(ref);
+  const fresh: Partial<Record<RepoCacheField, unknown>> = {};
+
+  for (const field of Object.keys(REPO_FIELD_TTLS) as RepoCacheField[]) {
+    const entry = cached[field];
+    if (entry && Date.now() - entry.timestamp < REPO_FIELD_TTLS[field]) {
+      fresh[field] = entry.value;
+    }
+  }
+
+  return fresh as Partial<RepoCacheValues>;
+}
+
+/**
+ * Get every cached part of a repository analysis however old, for offline
+ * use, with the time the oldest part was fetched
+ */
+export async function getStaleRepoFields(
+  ref: RepoRef
+): Promise<{ values: Partial<RepoCacheValues>; fetchedAt: number | null }> {
+  const cached = await readRepoCache(ref);
+  const values: Partial<Record<RepoCacheField, unknown>> = {};
+  let fetchedAt: number | null = null;
+
+  for (const field of Object.keys(REPO_FIELD_TTLS) as RepoCacheField[]) {
+    const entry = cached[field];
+    if (entry) {
+      values[field] = entry.value;
+      fetchedAt = fetchedAt === null ? entry.timestamp : Math.min(fetchedAt, entry.timestamp);
+    }
+  }
+
+  return { values: values as Partial<RepoCacheValues>, fetchedAt };
+}
+
+/**
+ * Store freshly fetched parts of a repository analysis. Other parts keep
+ * their own timestamps.
+ */
+export async function setCachedRepoFields(
+  ref: RepoRef,
+  values: Partial<RepoCacheValues>
+): Promise<void> {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+  if (!settings.enabled || entries.length === 0) {
+    return;
+  }
+
+  try {
+    const cached = await readRepoCache(ref);
+    const timestamp = Date.now();
+
+    cached.name = getRepoCacheName(ref);
+    for (const [field, value] of entries) {
+      (cached as Record<string, unknown>)[field] = { timestamp, value };
+    }
+
+    await writeEntry(getRepoCachePath(ref), JSON.stringify(cached));
+  } catch (error) {
+    // Caching is best effort
+  }
+}
+
 /**
  * Clear all cache
  */
 export async function clearCache(): Promise<boolean> {
   try {
-    const files = await fs.readdir(CACHE_DIR);
+    const files = await fs.readdir(settings.dir);
     await Promise.all(
-      files.map(file => fs.unlink(path.join(CACHE_DIR, file)))
+      files.map(file => fs.unlink(path.join(settings.dir, file)))
     );
+    knownSize = 0;
     return true;
   } catch (error) {
     return false;
   }
 }
 
+/**
+ * Kind of a cache entry, from its file name
+ */
+function getEntryKind(file: string): CacheEntryKind {
+  if (file.startsWith(RESPONSE_PREFIX)) return 'response';
+  if (file.startsWith(REPO_PREFIX)) return 'repo';
+  return 'search';
+}
+
+/**
+ * Describe an entry and decide whether it is still useful
+ */
+function describeEntry(
+  kind: CacheEntryKind,
+  content: unknown
+): Pick<CacheEntryInfo, 'description' | 'age' | 'status'> {
+  const now = Date.now();
+
+  if (kind === 'response') {
+    const entry = content as CachedResponse;
+    const age = now - entry.timestamp;
+    const status: CacheEntryStatus = age < settings.ttl
+      ? 'fresh'
+      : age < CACHE_LIMITS.STALE_MAX_AGE ? 'stale' : 'expired';
+    return { description: `GET ${entry.url}`, age, status };
+  }
+
+  if (kind === 'repo') {
+    const entry = content as RepoCacheData;
+    const fields = (Object.keys(REPO_FIELD_TTLS) as RepoCacheField[]).filter(field => entry[field]);
+    const fresh = fields.filter(field => now - entry[field]!.timestamp < REPO_FIELD_TTLS[field]);
+    const newest = Math.max(...fields.map(field => entry[field]!.timestamp));
+    const status: CacheEntryStatus = fresh.length === fields.length
+      ? 'fresh'
+      : now - newest < CACHE_LIMITS.STALE_MAX_AGE ? 'stale' : 'expired';
+    return {
+      description: `${entry.name || 'unknown repo'}: ${fields.join(', ')}`,
+      age: fields.length > 0 ? now - newest : 0,
+      status: fields.length > 0 ? status : 'expired'
+    };
+  }
+
+  const entry = content as CacheData<unknown[]>;
+  const age = now - entry.timestamp;
+  const count = Array.isArray(entry.data) ? ` (${entry.data.length} repos)` : '';
+  return {
+    description: `Search "${entry.params.keywords}"${count}`,
+    age,
+    status: age < settings.ttl ? 'fresh' : age < CACHE_LIMITS.STALE_MAX_AGE ? 'stale' : 'expired'
+  };
+}
+
+/**
+ * List cache entries, most recently used first
+ */
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const entries: CacheEntryInfo[] = [];
+
+  try {
+    for (const file of await listEntryFiles()) {
+      const filePath = path.join(settings.dir, file);
+      const kind = getEntryKind(file);
+
+      try {
+        const stats = await fs.stat(filePath);
+        const content: unknown = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        entries.push({
+          file,
+          kind,
+          size: stats.size,
+          lastUsed: stats.mtimeMs,
+          ...describeEntry(kind, content)
+        });
+      } catch (error) {
+        // Unreadable or half-written entries are only good for pruning
+        entries.push({
+          file,
+          kind,
+          description: 'Unreadable entry',
+          size: 0,
+          age: 0,
+          lastUsed: 0,
+          status: 'expired'
+        });
+      }
+    }
+  } catch (error) {
+    // No cache directory yet
+  }
+
+  return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+/**
+ * Remove expired entries
+ */
+export async function pruneCache(): Promise<CachePruneResult> {
+  const expired = (await listCacheEntries()).filter(entry => entry.status === 'expired');
+  let freed = 0;
+
+  for (const entry of expired) {
+    await fs.unlink(path.join(settings.dir, entry.file)).catch(() => {});
+    freed += entry.size;
+  }
+
+  knownSize = null;
+  return { removed: expired.length, freed };
+}
+
+/**
+ * Prune expired entries at most once a day without holding up the caller
+ */
+export function pruneCacheInBackground(): void {
+  const marker = path.join(settings.dir, PRUNE_MARKER);
+
+  const run = async (): Promise<void> => {
+    const lastPrune = await fs.stat(marker).then(stats => stats.mtimeMs, () => 0);
+    if (Date.now() - lastPrune < CACHE_LIMITS.PRUNE_INTERVAL) {
+      return;
+    }
+
+    await ensureCacheDir();
+    await fs.writeFile(marker, '');
+    await pruneCache();
+  };
+
+  run().catch(() => {});
+}
+
 /**
  * Get cache statistics
  */
 export async function getCacheStats(): Promise<CacheStats> {
+  const byKind: Record<CacheEntryKind, number> = { search: 0, response: 0, repo: 0 };
+
   try {
     await ensureCacheDir();
-    const files = await fs.readdir(CACHE_DIR);
+    const files = await listEntryFiles();
     let totalSize = 0;
 
     for (const file of files) {
-      const stats = await fs.stat(path.join(CACHE_DIR, file));
+      const stats = await fs.stat(path.join(settings.dir, file));
       totalSize += stats.size;
+      byKind[getEntryKind(file)]++;
     }
 
     return {
       files: files.length,
       size: totalSize,
-      sizeFormatted: formatBytes(totalSize)
+      sizeFormatted: formatBytes(totalSize),
+      directory: settings.dir,
+      maxSizeFormatted: formatBytes(settings.maxSize),
+      byKind
     };
   } catch (error) {
     return {
       files: 0,
       size: 0,
-      sizeFormatted: '0 B'
+      sizeFormatted: '0 B',
+      directory: settings.dir,
+      maxSizeFormatted: formatBytes(settings.maxSize),
+      byKind
     };
   }
 }
 
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
   const sizes = ['B', 'KB', 'MB', 'GB'];
@@ -0,0 +1,41 @@
+/**
+ * Run an async worker over items with at most `limit` in flight.
+ * Results keep the order of the input, whatever order workers finish in.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(normalizeConcurrency(limit), items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+  return results;
+}
+
+/**
+ * Clamp a configured concurrency to a positive integer
+ */
+export function normalizeConcurrency(limit: number): number {
+  if (!Number.isFinite(limit) || limit < 1) {
+    return 1;
+  }
+  return Math.floor(limit);
+}
+
+/**
+ * Message of an unknown thrown value
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CREDENTIALS_DIR_NAME,
+  CREDENTIALS_FILE,
+  DEFAULT_HOST,
+  GITHUB_ENTERPRISE,
+  PROVIDER_DEFAULTS
+} from '../config.js';
+import type { ProviderConfig, ResolvedToken, StoredCredentials } from '../types/index.js';
+
+/**
+ * Token discovery. A host's token comes from the first of its environment
+ * variable, the gitpick credentials file, the gh CLI's hosts.yml and
+ * ~/.netrc that has one.
+ */
+
+/**
+ * Environment variable with the token for a host
+ */
+export function getTokenEnv(config: ProviderConfig): string {
+  if (config.tokenEnv) {
+    return config.tokenEnv;
+  }
+  if (config.kind === 'github' && config.host !== DEFAULT_HOST) {
+    return GITHUB_ENTERPRISE.TOKEN_ENV;
+  }
+  return PROVIDER_DEFAULTS[config.kind].TOKEN_ENV;
+}
+
+/**
+ * Credentials file location, ~/.config/gitpick/credentials.json unless
+ * XDG_CONFIG_HOME is set
+ */
+export function getCredentialsPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, CREDENTIALS_DIR_NAME, CREDENTIALS_FILE);
+}
+
+/**
+ * Shorten a path under the home directory to ~/...
+ */
+export function formatPath(file: string): string {
+  const home = os.homedir();
+  return file.startsWith(home + path.sep) ? '~' + file.slice(home.length) : file;
+}
+
+/**
+ * Warning when the credentials file can be read by others, it's ignored
+ * until its permissions are fixed
+ */
+export function getCredentialsWarning(): string | null {
+  const file = getCredentialsPath();
+  try {
+    const { mode } = fs.statSync(file);
+    // Windows has no group or other permission bits to check
+    if (process.platform !== 'win32' && (mode & 0o077) !== 0) {
+      return `${formatPath(file)} is readable by other users and is ignored, run: chmod 600 ${formatPath(file)}`;
+    }
+  } catch {
+    // No credentials file
+  }
+  return null;
+}
+
+/**
+ * Tokens saved with gitpick auth login
+ */
+export function readStoredCredentials(): StoredCredentials {
+  if (getCredentialsWarning()) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(getCredentialsPath(), 'utf-8')) as StoredCredentials;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Saved tokens before changing them. Unlike reading for discovery, a file
+ * that others can read or that doesn't parse is an error here, writing
+ * over it would drop the tokens of every other host.
+ */
+function readCredentialsForUpdate(): StoredCredentials {
+  const file = getCredentialsPath();
+  if (getCredentialsWarning()) {
+    throw new Error(`${formatPath(file)} is readable by other users, run: chmod 600 ${formatPath(file)}`);
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch {
+    // No credentials file yet
+    return {};
+  }
+
+  try {
+    return JSON.parse(content) as StoredCredentials;
+  } catch {
+    throw new Error(`${formatPath(file)} is not valid JSON, fix or remove it first`);
+  }
+}
+
+function writeStoredCredentials(credentials: StoredCredentials): void {
+  const file = getCredentialsPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+  // The mode only applies to new files
+  fs.chmodSync(file, 0o600);
+}
+
+/**
+ * Save a token for a host, replacing any saved before. Throws when the
+ * credentials file can't be safely updated.
+ */
+export function saveCredential(host: string, token: string, login?: string): void {
+  writeStoredCredentials({ ...readCredentialsForUpdate(), [host]: { token, login } });
+}
+
+/**
+ * Remove the saved token of a host, false when there was none. Throws when
+ * the credentials file can't be safely updated.
+ */
+export function removeCredential(host: string): boolean {
+  const credentials = readCredentialsForUpdate();
+  if (!credentials[host]) {
+    return false;
+  }
+  delete credentials[host];
+  writeStoredCredentials(credentials);
+  return true;
+}
+
+function getGhHostsPath(): string {
+  if (process.env.GH_CONFIG_DIR) {
+    return path.join(process.env.GH_CONFIG_DIR, 'hosts.yml');
+  }
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'gh', 'hosts.yml');
+}
+
+/**
+ * oauth_token of a host in the gh CLI's hosts.yml. Only the few lines gh
+ * writes are understood, hosts at the top level and settings indented
+ * below. Tokens gh keeps in the system keyring aren't in the file.
+ */
+function readGhToken(host: string): string | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(getGhHostsPath(), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let inHost = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+    if (!/^\s/.test(line)) {
+      inHost = line.replace(/:\s*$/, '').replace(/^["']|["']$/g, '') === host;
+      continue;
+    }
+
+    const match = inHost ? line.match(/^\s+oauth_token:\s*["']?([^"'\s]+)["']?\s*$/) : null;
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function getNetrcPath(): string {
+  return process.env.NETRC || path.join(os.homedir(), process.platform === 'win32' ? '_netrc' : '.netrc');
+}
+
+/**
+ * Password of a machine in ~/.netrc, api.github.com counts for github.com
+ */
+function readNetrcToken(host: string): string | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(getNetrcPath(), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const machines = host === DEFAULT_HOST ? [host, `api.${host}`] : [host];
+  const tokens = content.split(/\s+/).filter(token => token.length > 0);
+  let machine: string | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i] === 'machine') {
+      machine = tokens[++i] ?? null;
+    } else if (tokens[i] === 'default') {
+      machine = null;
+    } else if (tokens[i] === 'password' && machine && machines.includes(machine)) {
+      return tokens[i + 1] ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Every token found for a host, in the order they're used
+ */
+export function findTokens(config: ProviderConfig): ResolvedToken[] {
+  const found: ResolvedToken[] = [];
+
+  const tokenEnv = getTokenEnv(config);
+  if (process.env[tokenEnv]) {
+    found.push({ token: process.env[tokenEnv]!, source: 'env', location: tokenEnv });
+  }
+
+  const stored = readStoredCredentials()[config.host];
+  if (stored?.token) {
+    found.push({ token: stored.token, source: 'gitpick', location: formatPath(getCredentialsPath()) });
+  }
+
+  const ghToken = readGhToken(config.host);
+  if (ghToken) {
+    found.push({ token: ghToken, source: 'gh', location: formatPath(getGhHostsPath()) });
+  }
+
+  const netrcToken = readNetrcToken(config.host);
+  if (netrcToken) {
+    found.push({ token: netrcToken, source: 'netrc', location: formatPath(getNetrcPath()) });
+  }
+
+  return found;
+}
+
+/**
+ * Token for a host, null when none is found
+ */
+export function findToken(config: ProviderConfig): ResolvedToken | null {
+  return findTokens(config)[0] ?? null;
+}
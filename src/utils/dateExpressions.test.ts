@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveDateExpressions, startOfDayAgo, subtractFromDate } from './dateExpressions.js';
+
+const now = new Date('2024-03-31T15:30:00Z');
+
+describe('resolveDateExpressions', () => {
+  it('resolves each short unit', () => {
+    assert.equal(resolveDateExpressions('@-3d', now), '2024-03-28');
+    assert.equal(resolveDateExpressions('@-2w', now), '2024-03-17');
+    assert.equal(resolveDateExpressions('@-6m', now), '2023-09-30');
+    assert.equal(resolveDateExpressions('@-1y', now), '2023-03-31');
+  });
+
+  it('resolves each long unit, singular and plural', () => {
+    assert.equal(resolveDateExpressions('{{1 day ago}}', now), '2024-03-30');
+    assert.equal(resolveDateExpressions('{{2 weeks ago}}', now), '2024-03-17');
+    assert.equal(resolveDateExpressions('{{ 1 Month ago }}', now), '2024-02-29');
+    assert.equal(resolveDateExpressions('{{2 years ago}}', now), '2022-03-31');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    assert.equal(resolveDateExpressions('@-1m', now), '2024-02-29');
+    assert.equal(resolveDateExpressions('@-1m', new Date('2023-03-31T00:00:00Z')), '2023-02-28');
+    assert.equal(resolveDateExpressions('@-1y', new Date('2024-02-29T00:00:00Z')), '2023-02-28');
+  });
+
+  it('resolves today and yesterday', () => {
+    assert.equal(resolveDateExpressions('{{today}}', now), '2024-03-31');
+    assert.equal(resolveDateExpressions('{{yesterday}}', new Date('2024-03-01T08:00:00Z')), '2024-02-29');
+  });
+
+  it('resolves both ends of a range and leaves other text alone', () => {
+    assert.equal(
+      resolveDateExpressions('cli created:@-30d..{{today}} stars:>10', now),
+      'cli created:2024-03-01..2024-03-31 stars:>10'
+    );
+  });
+
+  it('throws on an unknown {{...}} expression', () => {
+    assert.throws(() => resolveDateExpressions('{{next week}}', now), /Unknown date expression "\{\{next week\}\}"/);
+  });
+});
+
+describe('subtractFromDate', () => {
+  it('does not change the date passed in', () => {
+    const date = new Date(now.getTime());
+    subtractFromDate(date, 1, 'm');
+    assert.equal(date.getTime(), now.getTime());
+  });
+});
+
+describe('startOfDayAgo', () => {
+  it('rounds down to the start of the UTC day', () => {
+    assert.equal(startOfDayAgo(90, now), '2024-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Relative date expressions for search queries, resolved at run time so
+ * templates never go stale.
+ *
+ * Supported forms:
+ *   @-30d, @-2w, @-6m, @-1y    short offsets in days, weeks, months, years
+ *   {{7 days ago}}             long offsets (day, week, month, year)
+ *   {{today}}, {{yesterday}}
+ */
+
+type DateUnit = 'd' | 'w' | 'm' | 'y';
+
+// Time of a recorded session while recording or replaying it, null for the real clock
+let fixedNow: Date | null = null;
+
+const SHORT_EXPRESSION = /@-(\d+)([dwmy])\b/g;
+const LONG_EXPRESSION = /\{\{\s*([^}]*?)\s*\}\}/g;
+const LONG_OFFSET = /^(\d+)\s+(day|week|month|year)s?\s+ago$/i;
+
+const LONG_UNITS: Record<string, DateUnit> = {
+  day: 'd',
+  week: 'w',
+  month: 'm',
+  year: 'y'
+};
+
+/**
+ * Pin the current time, so a replay resolves dates as its recording did
+ */
+export function setClock(date: Date | null): void {
+  fixedNow = date;
+}
+
+/**
+ * Current time, pinned while recording or replaying
+ */
+export function getNow(): Date {
+  return fixedNow ? new Date(fixedNow.getTime()) : new Date();
+}
+
+/**
+ * Move a date back by the given amount of days, weeks, months or years
+ */
+export function subtractFromDate(date: Date, amount: number, unit: DateUnit): Date {
+  const result = new Date(date.getTime());
+
+  switch (unit) {
+    case 'd':
+      result.setUTCDate(result.getUTCDate() - amount);
+      break;
+    case 'w':
+      result.setUTCDate(result.getUTCDate() - amount * 7);
+      break;
+    case 'm':
+    case 'y': {
+      // Clamp to the end of shorter months (Mar 31 - 1 month = Feb 28)
+      const day = result.getUTCDate();
+      result.setUTCDate(1);
+      result.setUTCMonth(result.getUTCMonth() - (unit === 'm' ? amount : amount * 12));
+      const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+      result.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Start of the UTC day a number of days back, as an ISO timestamp. API
+ * URLs built from it stay the same all day, so cached and recorded
+ * responses still match them.
+ */
+export function startOfDayAgo(days: number, now: Date = getNow()): string {
+  const date = subtractFromDate(now, days, 'd');
+  date.setUTCHours(0, 0, 0, 0);
+  return date.toISOString();
+}
+
+/**
+ * Format date the way GitHub search qualifiers expect (YYYY-MM-DD)
+ */
+export function formatSearchDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the inside of a {{...}} expression
+ */
+function resolveLongExpression(expression: string, now: Date): string {
+  const normalized = expression.toLowerCase();
+
+  if (normalized === 'today') {
+    return formatSearchDate(now);
+  }
+  if (normalized === 'yesterday') {
+    return formatSearchDate(subtractFromDate(now, 1, 'd'));
+  }
+
+  const match = LONG_OFFSET.exec(normalized);
+  if (!match) {
+    throw new Error(`Unknown date expression "{{${expression}}}"`);
+  }
+
+  return formatSearchDate(subtractFromDate(now, parseInt(match[1], 10), LONG_UNITS[match[2]]));
+}
+
+/**
+ * Replace every relative date expression in text with a concrete date
+ */
+export function resolveDateExpressions(text: string, now: Date = getNow()): string {
+  return text
+    .replace(SHORT_EXPRESSION, (_, amount: string, unit: DateUnit) =>
+      formatSearchDate(subtractFromDate(now, parseInt(amount, 10), unit))
+    )
+    .replace(LONG_EXPRESSION, (_, expression: string) => resolveLongExpression(expression, now));
+}
+
@@ -1,7 +1,15 @@
 import fs from 'fs/promises';
 import chalk from 'chalk';
 import { FILE_OUTPUTS } from '../config.js';
-import type { RepoAnalysis } from '../types/index.js';
+import { getActivityTrend } from './analytics.js';
+import { createSparkline } from './visualEffects.js';
+import type { RepoAnalysis, ExportFormat, Trend } from '../types/index.js';
+
+const TREND_LABELS: Record<Trend, string> = {
+  up: '↑ trending up',
+  down: '↓ trending down',
+  stable: '→ steady'
+};
 
 /**
  * Escape CSV string
@@ -28,6 +36,78 @@ function escapeHTML(str: string | null | undefined): string {
     .replace(/'/g, '&#039;');
 }
 
+/**
+ * SVG bar chart of weekly commits, oldest week first
+ */
+function buildActivityChart(weeks: number[]): string {
+  const barWidth = 10;
+  const height = 60;
+  const max = Math.max(...weeks, 1);
+
+  const bars = weeks.map((count, i) => {
+    // Weeks with any commits stay visible next to busy ones
+    const barHeight = count > 0 ? Math.max(Math.round((count / max) * height), 2) : 0;
+    const weeksAgo = weeks.length - 1 - i;
+    const when = weeksAgo === 0 ? 'this week' : `${weeksAgo} week${weeksAgo === 1 ? '' : 's'} ago`;
+    return `<rect x="${i * barWidth}" y="${height - barHeight}" width="${barWidth - 2}" height="${barHeight}"><title>${count} commit${count === 1 ? '' : 's'}, ${when}</title></rect>`;
+  });
+
+  return `<svg class="activity-chart" viewBox="0 0 ${weeks.length * barWidth} ${height}" preserveAspectRatio="none" role="img" aria-label="Commits per week">${bars.join('')}</svg>`;
+}
+
+/**
+ * Build CSV document from results
+ */
+export function buildCSV(results: RepoAnalysis[]): string {
+  // CSV header
+  const headers = [
+    'Name',
+    'Description',
+    'Stars',
+    'Language',
+    'Last Activity (days)',
+    'Active',
+    'Open Issues',
+    'Has Contributing Guide',
+    'Good First Issues Count',
+    'Contributors',
+    'Bus Factor 50%',
+    'Bus Factor 80%',
+    'Recent Commits',
+    'Commits Last 52 Weeks',
+    'Commit Trend',
+    'Activity Score',
+    'Topics',
+    'URL'
+  ];
+
+  const rows = results.map(repo => [
+    escapeCSV(repo.name),
+    escapeCSV(repo.description),
+    repo.stars,
+    escapeCSV(repo.language || 'N/A'),
+    repo.lastActivity !== null ? repo.lastActivity : 'N/A',
+    repo.active ? 'Yes' : 'No',
+    repo.openIssues,
+    repo.hasContributing ? 'Yes' : 'No',
+    repo.goodFirstIssues.length,
+    repo.contributorsCount !== null ? repo.contributorsCount : 'N/A',
+    repo.busFactor ? repo.busFactor.share50 : 'N/A',
+    repo.busFactor ? repo.busFactor.share80 : 'N/A',
+    repo.busFactor ? repo.busFactor.commits : 'N/A',
+    repo.commitActivity ? repo.commitActivity.reduce((a, b) => a + b, 0) : 'N/A',
+    repo.commitActivity ? getActivityTrend(repo.commitActivity) : 'N/A',
+    repo.activityScore ? repo.activityScore.toFixed(2) : 'N/A',
+    escapeCSV(repo.topics.join('; ')),
+    repo.url
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+}
+
 /**
  * Export results to CSV format
  */
@@ -36,42 +116,7 @@ export async function exportToCSV(
   filename: string = FILE_OUTPUTS.CSV
 ): Promise<boolean> {
   try {
-    // CSV header
-    const headers = [
-      'Name',
-      'Description',
-      'Stars',
-      'Language',
-      'Last Activity (days)',
-      'Active',
-      'Open Issues',
-      'Has Contributing Guide',
-      'Good First Issues Count',
-      'Activity Score',
-      'Topics',
-      'URL'
-    ];
-
-    const rows = results.map(repo => [
-      escapeCSV(repo.name),
-      escapeCSV(repo.description),
-      repo.stars,
-      escapeCSV(repo.language || 'N/A'),
-      repo.lastActivity !== null ? repo.lastActivity : 'N/A',
-      repo.active ? 'Yes' : 'No',
-      repo.openIssues,
-      repo.hasContributing ? 'Yes' : 'No',
-      repo.goodFirstIssues.length,
-      repo.activityScore ? repo.activityScore.toFixed(2) : 'N/A',
-      escapeCSV(repo.topics.join('; ')),
-      repo.url
-    ]);
-
-    const csv = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-
+    const csv = buildCSV(results);
     await fs.writeFile(filename, csv);
     console.log(chalk.green(`✅ CSV exported to ${filename}`));
     return true;
@@ -82,14 +127,10 @@ export async function exportToCSV(
 }
 
 /**
- * Export results to HTML format
+ * Build HTML report from results
  */
-export async function exportToHTML(
-  results: RepoAnalysis[],
-  filename: string = FILE_OUTPUTS.HTML
-): Promise<boolean> {
-  try {
-    const html = `<!DOCTYPE html>
+export function buildHTML(results: RepoAnalysis[]): string {
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
@@ -207,6 +248,23 @@ export async function exportToHTML(
             font-size: 16px;
         }
 
+        .activity {
+            margin-bottom: 16px;
+        }
+
+        .activity-chart {
+            display: block;
+            width: 100%;
+            height: 60px;
+            fill: #2ea44f;
+        }
+
+        .activity-label {
+            font-size: 13px;
+            color: #586069;
+            margin-top: 4px;
+        }
+
         .features {
             display: flex;
             flex-wrap: wrap;
@@ -377,14 +435,27 @@ export async function exportToHTML(
                     <span><strong>${repo.forks.toLocaleString()}</strong> forks</span>
                 </div>
                 ` : ''}
-                ${repo.contributorsCount ? `
+                ${repo.contributorsCount !== null ? `
                 <div class="metric">
                     <span class="metric-icon">👥</span>
-                    <span><strong>${repo.contributorsCount}</strong> contributors</span>
+                    <span><strong>${repo.contributorsCount.toLocaleString()}</strong> contributors</span>
+                </div>
+                ` : ''}
+                ${repo.busFactor ? `
+                <div class="metric" title="Authors behind 50% / 80% of ${repo.busFactor.commits} recent commits">
+                    <span class="metric-icon">🚌</span>
+                    <span>bus factor <strong>${repo.busFactor.share50}</strong> / ${repo.busFactor.share80}</span>
                 </div>
                 ` : ''}
             </div>
 
+            ${repo.commitActivity ? `
+            <div class="activity">
+                ${buildActivityChart(repo.commitActivity)}
+                <div class="activity-label">📈 ${repo.commitActivity.reduce((a, b) => a + b, 0).toLocaleString()} commits in the last ${repo.commitActivity.length} weeks, ${TREND_LABELS[getActivityTrend(repo.commitActivity)]}</div>
+            </div>
+            ` : ''}
+
             <div class="features">
                 ${repo.hasContributing ? '<span class="feature">📋 Contributing Guide</span>' : ''}
                 ${repo.hasCodeOfConduct ? '<span class="feature">📜 Code of Conduct</span>' : ''}
@@ -417,6 +488,17 @@ export async function exportToHTML(
     </div>
 </body>
 </html>`;
+}
+
+/**
+ * Export results to HTML format
+ */
+export async function exportToHTML(
+  results: RepoAnalysis[],
+  filename: string = FILE_OUTPUTS.HTML
+): Promise<boolean> {
+  try {
+    const html = buildHTML(results);
 
     await fs.writeFile(filename, html);
     console.log(chalk.green(`✅ HTML report exported to ${filename}`));
@@ -445,12 +527,9 @@ export async function exportToJSON(
 }
 
 /**
- * Export results to Markdown format
+ * Build Markdown report from results
  */
-export async function exportToMarkdown(
-  results: RepoAnalysis[],
-  filename: string = FILE_OUTPUTS.MARKDOWN
-): Promise<boolean> {
+export function buildMarkdown(results: RepoAnalysis[]): string {
   let markdown = '# GitHub Repositories for Contributing\n\n';
   markdown += `Date: ${new Date().toLocaleDateString('en-US')}\n\n`;
   markdown += `Found repositories: ${results.length}\n\n`;
@@ -481,8 +560,16 @@ export async function exportToMarkdown(
       markdown += `- 🔱 Forks: ${repo.forks.toLocaleString()}\n`;
     }
 
-    if (repo.contributorsCount) {
-      markdown += `- 👥 Contributors: ${repo.contributorsCount}\n`;
+    if (repo.contributorsCount !== null) {
+      markdown += `- 👥 Contributors: ${repo.contributorsCount.toLocaleString()}\n`;
+    }
+
+    if (repo.busFactor) {
+      markdown += `- 🚌 Bus factor: ${repo.busFactor.share50} authors made 50% and ${repo.busFactor.share80} made 80% of ${repo.busFactor.commits} recent commits\n`;
+    }
+
+    if (repo.commitActivity) {
+      markdown += `- 📈 Commits per week: \`${createSparkline(repo.commitActivity)}\` ${repo.commitActivity.reduce((a, b) => a + b, 0)} in ${repo.commitActivity.length} weeks, ${TREND_LABELS[getActivityTrend(repo.commitActivity)]}\n`;
     }
 
     markdown += `- ${repo.active ? '✅ Active' : '❌ Inactive'}\n`;
@@ -513,6 +600,18 @@ export async function exportToMarkdown(
     markdown += '---\n\n';
   });
 
+  return markdown;
+}
+
+/**
+ * Export results to Markdown format
+ */
+export async function exportToMarkdown(
+  results: RepoAnalysis[],
+  filename: string = FILE_OUTPUTS.MARKDOWN
+): Promise<boolean> {
+  const markdown = buildMarkdown(results);
+
   try {
     await fs.writeFile(filename, markdown);
     console.log(chalk.green(`✅ Markdown report saved to ${filename}`));
@@ -522,3 +621,20 @@ export async function exportToMarkdown(
     return false;
   }
 }
+
+/**
+ * Render results in the given format as a string
+ */
+export function formatResults(results: RepoAnalysis[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return buildCSV(results);
+    case 'markdown':
+      return buildMarkdown(results);
+    case 'html':
+      return buildHTML(results);
+    case 'json':
+    default:
+      return JSON.stringify(results, null, 2);
+  }
+}
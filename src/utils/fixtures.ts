@@ -0,0 +1,194 @@
+import fs from 'fs';
+import { RequestError } from 'octokit';
+import { wrapRestRequests } from '../providers/rest.js';
+import type { OctokitInstance, FixtureEntry, FixtureFile } from '../types/index.js';
+
+/**
+ * Record and replay API traffic of every forge. Recording saves every
+ * request and response of a session to a fixture file, replaying serves
+ * them back without network access, for reproducible bug reports, demos
+ * and tests. The session runs on the clock of the recording. Request
+ * headers, and with them the tokens, are never saved.
+ */
+
+// 2 added the recording time and authenticated hosts
+const FIXTURE_VERSION = 2;
+
+// Stands in for the tokens of hosts that had one, replayed requests never
+// leave the process
+export const REPLAY_TOKEN = 'replay';
+
+interface FailedRequest {
+  status?: number;
+  message?: string;
+  response?: { status: number; headers: Record<string, unknown>; data: unknown };
+}
+
+/**
+ * Key that identifies a request, GraphQL queries differ only by body
+ */
+function getRequestKey(method: string, url: string, body?: string): string {
+  return body ? `${method} ${url} ${body}` : `${method} ${url}`;
+}
+
+function serializeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function toStringHeaders(headers: Record<string, unknown> | undefined): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers || {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, String(value)])
+  );
+}
+
+/**
+ * Error for a replayed request that was never recorded, it's not retried
+ */
+function createNotRecordedError(method: string, url: string): Error {
+  const error: Error & { notRecorded?: boolean } = new Error(
+    `No recorded response for ${method} ${url}, replay with the arguments of the recording`
+  );
+  error.notRecorded = true;
+  return error;
+}
+
+/**
+ * Check if an error is a replayed request missing from the fixture
+ */
+export function isNotRecordedError(error: unknown): boolean {
+  return (error as { notRecorded?: boolean }).notRecorded === true;
+}
+
+/**
+ * Record every request of the Octokit instances and REST clients, the file
+ * is written when the process exits. Hosts with a token are saved so the
+ * replay takes the same authenticated paths, GraphQL batching for one.
+ * REST requests that never reached the host aren't recorded.
+ */
+export function installRecorder(
+  octokits: OctokitInstance[],
+  file: string,
+  session: { recordedAt: Date; authenticatedHosts: string[] }
+): void {
+  const entries: FixtureEntry[] = [];
+
+  for (const octokit of octokits) {
+    octokit.hook.wrap('request', async (request, options) => {
+      const { method, url, body } = octokit.request.endpoint.parse(options);
+      const base = { method, url, body: serializeBody(body) };
+
+      try {
+        const response = await request(options);
+        entries.push({
+          ...base,
+          status: response.status,
+          headers: toStringHeaders(response.headers as Record<string, unknown>),
+          data: response.data
+        });
+        return response;
+      } catch (error) {
+        const { status, message, response } = error as FailedRequest;
+        entries.push({
+          ...base,
+          status: status ?? 0,
+          headers: toStringHeaders(response?.headers),
+          data: response?.data ?? null,
+          message
+        });
+        throw error;
+      }
+    });
+  }
+
+  wrapRestRequests(async (send, request) => {
+    const response = await send(request);
+    entries.push({
+      method: request.method,
+      url: request.url,
+      body: request.body,
+      status: response.status,
+      headers: response.headers,
+      data: response.data
+    });
+    return response;
+  });
+
+  // Sync write, exit handlers can't wait for promises
+  process.once('exit', () => {
+    const fixture: FixtureFile = {
+      version: FIXTURE_VERSION,
+      recordedAt: session.recordedAt.toISOString(),
+      authenticatedHosts: session.authenticatedHosts,
+      entries
+    };
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  });
+}
+
+/**
+ * Load a fixture file
+ */
+export function loadFixtures(file: string): FixtureFile {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as FixtureFile;
+  if (fixture.version !== FIXTURE_VERSION || !Array.isArray(fixture.entries)) {
+    throw new Error(`${file} is not a GitPick fixture file (version ${FIXTURE_VERSION}), record it again`);
+  }
+  return fixture;
+}
+
+/**
+ * Serve every request of the Octokit instances and REST clients from
+ * recorded fixtures. Repeated requests get their recorded responses in
+ * order, the last one is repeated once they run out. Unrecorded requests
+ * fail without being retried.
+ */
+export function installReplayer(octokits: OctokitInstance[], fixture: FixtureFile): void {
+  const queues = new Map<string, FixtureEntry[]>();
+  for (const entry of fixture.entries) {
+    const key = getRequestKey(entry.method, entry.url, entry.body);
+    queues.set(key, [...(queues.get(key) || []), entry]);
+  }
+
+  const nextEntry = (method: string, url: string, body?: string): FixtureEntry => {
+    const queue = queues.get(getRequestKey(method, url, body));
+    if (!queue || queue.length === 0) {
+      throw createNotRecordedError(method, url);
+    }
+    return queue.length > 1 ? queue.shift()! : queue[0];
+  };
+
+  for (const octokit of octokits) {
+    octokit.hook.wrap('request', async (_request, options) => {
+      const requestOptions = octokit.request.endpoint.parse(options);
+      const { method, url, body } = requestOptions;
+
+      const entry = nextEntry(method, url, serializeBody(body));
+      const response = {
+        status: entry.status,
+        url: entry.url,
+        headers: entry.headers,
+        data: entry.data
+      };
+
+      if (entry.status >= 300 || entry.message !== undefined) {
+        throw new RequestError(entry.message || `HTTP ${entry.status}`, entry.status, {
+          request: requestOptions,
+          response
+        });
+      }
+
+      return response;
+    });
+  }
+
+  // REST clients turn error statuses into errors themselves
+  wrapRestRequests(async (_send, request) => {
+    const entry = nextEntry(request.method, request.url, request.body);
+    return { status: entry.status, headers: entry.headers, data: entry.data };
+  });
+}
@@ -1,6 +1,6 @@
-import { Octokit } from 'octokit';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import type { RepoProvider, AuthenticatedUser } from '../types/index.js';
 
 const execAsync = promisify(exec);
 
@@ -13,15 +13,12 @@ export interface GitHubActionResult {
  * Fork a repository
  */
 export async function forkRepository(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<GitHubActionResult> {
   try {
-    await octokit.rest.repos.createFork({
-      owner,
-      repo
-    });
+    await provider.forkRepo(owner, repo);
 
     return {
       success: true,
@@ -39,15 +36,12 @@ export async function forkRepository(
  * Star a repository
  */
 export async function starRepository(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<GitHubActionResult> {
   try {
-    await octokit.rest.activity.starRepoForAuthenticatedUser({
-      owner,
-      repo
-    });
+    await provider.starRepo(owner, repo);
 
     return {
       success: true,
@@ -65,15 +59,12 @@ export async function starRepository(
  * Unstar a repository
  */
 export async function unstarRepository(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<GitHubActionResult> {
   try {
-    await octokit.rest.activity.unstarRepoForAuthenticatedUser({
-      owner,
-      repo
-    });
+    await provider.unstarRepo(owner, repo);
 
     return {
       success: true,
@@ -91,16 +82,12 @@ export async function unstarRepository(
  * Watch a repository
  */
 export async function watchRepository(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<GitHubActionResult> {
   try {
-    await octokit.rest.activity.setRepoSubscription({
-      owner,
-      repo,
-      subscribed: true
-    });
+    await provider.watchRepo(owner, repo);
 
     return {
       success: true,
@@ -144,16 +131,12 @@ export async function cloneRepository(
  * Check if user has starred a repository
  */
 export async function checkIfStarred(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<boolean> {
   try {
-    await octokit.rest.activity.checkRepoIsStarredByAuthenticatedUser({
-      owner,
-      repo
-    });
-    return true;
+    return await provider.isStarred(owner, repo);
   } catch {
     return false;
   }
@@ -163,28 +146,23 @@ export async function checkIfStarred(
  * Check if user is watching a repository
  */
 export async function checkIfWatching(
-  octokit: Octokit,
+  provider: RepoProvider,
   owner: string,
   repo: string
 ): Promise<boolean> {
   try {
-    const { data } = await octokit.rest.activity.getRepoSubscription({
-      owner,
-      repo
-    });
-    return data.subscribed;
+    return await provider.isWatching(owner, repo);
   } catch {
     return false;
   }
 }
 
 /**
- * Get authenticated user info
+ * Get authenticated user info, null when the token doesn't work
  */
-export async function getAuthenticatedUser(octokit: Octokit): Promise<string | null> {
+export async function getAuthenticatedUser(provider: RepoProvider): Promise<AuthenticatedUser | null> {
   try {
-    const { data } = await octokit.rest.users.getAuthenticated();
-    return data.login;
+    return await provider.getAuthenticatedUser();
   } catch {
     return null;
   }
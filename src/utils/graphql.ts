@@ -0,0 +1,182 @@
+import { DEFAULT_ISSUE_LABELS, GRAPHQL_BATCH_SIZE } from '../config.js';
+import { withRetry } from './retry.js';
+import type {
+  OctokitInstance,
+  RepoRef,
+  RepoBatchEntry,
+  GoodFirstIssue
+} from '../types/index.js';
+
+/**
+ * Batched repository data over the GraphQL API. One query covers metadata,
+ * last commit, good first issues and community files for several
+ * repositories, replacing about 5 REST calls per repository.
+ * GraphQL requires a token, callers fall back to REST without one.
+ */
+
+interface GraphQLRepository {
+  nameWithOwner: string;
+  name: string;
+  owner: { login: string };
+  description: string | null;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  isArchived: boolean;
+  isFork: boolean;
+  primaryLanguage: { name: string } | null;
+  licenseInfo: { name: string } | null;
+  repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+  openIssues: { totalCount: number };
+  defaultBranchRef: { target: { authoredDate?: string } | null } | null;
+  goodFirstIssues: {
+    nodes: Array<{
+      title: string;
+      url: string;
+      number: number;
+      createdAt: string;
+      comments: { totalCount: number };
+    }>;
+  };
+  contributing: { id: string } | null;
+  codeOfConduct: { id: string } | null;
+}
+
+type BatchResponse = Record<string, GraphQLRepository | null>;
+
+const REPO_FRAGMENT = `
+fragment RepoFields on Repository {
+  nameWithOwner
+  name
+  owner { login }
+  description
+  url
+  stargazerCount
+  forkCount
+  isArchived
+  isFork
+  primaryLanguage { name }
+  licenseInfo { name }
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  openIssues: issues(states: OPEN) { totalCount }
+  defaultBranchRef { target { ... on Commit { authoredDate } } }
+  goodFirstIssues: issues(
+    first: 5
+    states: OPEN
+    labels: $labels
+    orderBy: { field: CREATED_AT, direction: DESC }
+  ) {
+    nodes { title url number createdAt comments { totalCount } }
+  }
+  contributing: object(expression: "HEAD:CONTRIBUTING.md") { id }
+  codeOfConduct: object(expression: "HEAD:CODE_OF_CONDUCT.md") { id }
+}`;
+
+/**
+ * Lookup key for a repository, GitHub names are case-insensitive
+ */
+export function repoKey(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Build one aliased query for a batch of repositories
+ */
+function buildBatchQuery(refs: RepoRef[]): { query: string; variables: Record<string, unknown> } {
+  const variables: Record<string, unknown> = { labels: DEFAULT_ISSUE_LABELS };
+  const declarations = ['$labels: [String!]'];
+
+  const fields = refs.map((ref, index) => {
+    variables[`owner${index}`] = ref.owner;
+    variables[`name${index}`] = ref.repo;
+    declarations.push(`$owner${index}: String!`, `$name${index}: String!`);
+    return `  r${index}: repository(owner: $owner${index}, name: $name${index}) { ...RepoFields }`;
+  });
+
+  const query = `query(${declarations.join(', ')}) {\n${fields.join('\n')}\n}\n${REPO_FRAGMENT}`;
+
+  return { query, variables };
+}
+
+/**
+ * Convert a GraphQL repository to the REST shapes the rest of the app uses
+ */
+function toBatchEntry(node: GraphQLRepository): RepoBatchEntry {
+  const goodFirstIssues: GoodFirstIssue[] = node.goodFirstIssues.nodes.map(issue => ({
+    title: issue.title,
+    html_url: issue.url,
+    number: issue.number,
+    created_at: issue.createdAt,
+    comments: issue.comments.totalCount
+  }));
+
+  return {
+    repo: {
+      full_name: node.nameWithOwner,
+      name: node.name,
+      owner: { login: node.owner.login },
+      description: node.description,
+      stargazers_count: node.stargazerCount,
+      language: node.primaryLanguage ? node.primaryLanguage.name : null,
+      html_url: node.url,
+      open_issues_count: node.openIssues.totalCount,
+      forks_count: node.forkCount,
+      topics: node.repositoryTopics.nodes.map(n => n.topic.name),
+      license: node.licenseInfo ? { name: node.licenseInfo.name } : null,
+      archived: node.isArchived,
+      fork: node.isFork
+    },
+    details: {
+      lastCommitDate: node.defaultBranchRef?.target?.authoredDate || null,
+      goodFirstIssues,
+      hasContributing: node.contributing !== null,
+      hasCodeOfConduct: node.codeOfConduct !== null
+    }
+  };
+}
+
+/**
+ * Run one batch query
+ */
+async function fetchBatch(octokit: OctokitInstance, refs: RepoRef[]): Promise<BatchResponse> {
+  const { query, variables } = buildBatchQuery(refs);
+
+  return await withRetry(async () => {
+    try {
+      return await octokit.graphql<BatchResponse>(query, variables);
+    } catch (error) {
+      // Missing or inaccessible repositories come back as errors next to
+      // partial data for the others
+      const partial = (error as { data?: BatchResponse }).data;
+      if (partial) {
+        return partial;
+      }
+      throw error;
+    }
+  }, 'Fetching repositories (GraphQL)');
+}
+
+/**
+ * Fetch metadata and analysis data for many repositories in as few queries
+ * as possible. Repositories that don't exist are missing from the result.
+ */
+export async function fetchReposGraphQL(
+  octokit: OctokitInstance,
+  refs: RepoRef[]
+): Promise<Map<string, RepoBatchEntry>> {
+  const results = new Map<string, RepoBatchEntry>();
+
+  for (let i = 0; i < refs.length; i += GRAPHQL_BATCH_SIZE) {
+    const batch = refs.slice(i, i + GRAPHQL_BATCH_SIZE);
+    const data = await fetchBatch(octokit, batch);
+
+    batch.forEach((ref, index) => {
+      const node = data[`r${index}`];
+      if (node) {
+        results.set(repoKey(ref.owner, ref.repo), toBatchEntry(node));
+      }
+    });
+  }
+
+  return results;
+}
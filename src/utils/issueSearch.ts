@@ -0,0 +1,113 @@
+import { ISSUE_RANK_WEIGHTS } from '../config.js';
+import { withRetry } from './retry.js';
+import { buildLanguageQualifier } from './languages.js';
+import { getNow } from './dateExpressions.js';
+import type {
+  OctokitInstance,
+  IssueSearchParams,
+  IssueCandidate
+} from '../types/index.js';
+
+/**
+ * Issues older than this count as completely stale
+ */
+const STALE_AFTER_DAYS = 180;
+
+/**
+ * Build GitHub issue search query
+ */
+export function buildIssueQuery(params: IssueSearchParams): string {
+  let query = 'is:issue is:open archived:false';
+
+  if (params.keywords) {
+    query = `${params.keywords} ${query}`;
+  }
+
+  // Comma separated label values are ORed by GitHub
+  if (params.labels.length > 0) {
+    query += ` label:${params.labels.map(label => `"${label}"`).join(',')}`;
+  }
+
+  if (params.languages.length > 0) {
+    query += ` ${buildLanguageQualifier(params.languages)}`;
+  }
+
+  if (params.onlyUnassigned) {
+    query += ' no:assignee';
+  }
+
+  return query;
+}
+
+/**
+ * Search open issues across all repositories
+ */
+export async function searchIssues(
+  octokit: OctokitInstance,
+  params: IssueSearchParams
+): Promise<IssueCandidate[]> {
+  const items = await withRetry(async () => {
+    const { data } = await octokit.rest.search.issuesAndPullRequests({
+      q: buildIssueQuery(params),
+      sort: 'updated',
+      order: 'desc',
+      per_page: Math.min(params.maxResults, 100)
+    });
+    return data.items;
+  }, 'Searching issues');
+
+  return items.map(issue => ({
+    title: issue.title,
+    html_url: issue.html_url,
+    number: issue.number,
+    // repository_url looks like https://api.github.com/repos/owner/name
+    repo: issue.repository_url.split('/').slice(-2).join('/'),
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    comments: issue.comments,
+    assigned: Boolean(issue.assignee) || (issue.assignees?.length ?? 0) > 0,
+    labels: issue.labels.map(label => (typeof label === 'string' ? label : label.name || ''))
+  }));
+}
+
+/**
+ * Days since a date
+ */
+function daysSince(date: string): number {
+  return Math.floor((getNow().getTime() - new Date(date).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Rank value between 0 and 10 for a single issue
+ */
+export function calculateIssueRank(issue: IssueCandidate): number {
+  const freshness = 1 - Math.min(daysSince(issue.created_at), STALE_AFTER_DAYS) / STALE_AFTER_DAYS;
+  // Lightly discussed issues are less likely to be claimed or stuck in debate
+  const comments = 1 / (1 + issue.comments / 5);
+  const unassigned = issue.assigned ? 0 : 1;
+  const repoScore = (issue.repoScore || 0) / 10;
+
+  const rank =
+    freshness * ISSUE_RANK_WEIGHTS.FRESHNESS +
+    comments * ISSUE_RANK_WEIGHTS.COMMENTS +
+    unassigned * ISSUE_RANK_WEIGHTS.UNASSIGNED +
+    repoScore * ISSUE_RANK_WEIGHTS.REPO_SCORE;
+
+  return Math.round(rank * 100) / 10;
+}
+
+/**
+ * Attach rank values and sort issues best first
+ */
+export function rankIssues(issues: IssueCandidate[]): IssueCandidate[] {
+  return issues
+    .map(issue => ({ ...issue, rank: calculateIssueRank(issue) }))
+    .sort((a, b) => (b.rank || 0) - (a.rank || 0));
+}
+
+/**
+ * Get issue age in days
+ */
+export function getIssueAge(issue: IssueCandidate): number {
+  return daysSince(issue.created_at);
+}
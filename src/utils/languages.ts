@@ -0,0 +1,58 @@
+import { LANGUAGES } from '../config.js';
+import type { UserConfig, SearchHistoryEntry } from '../types/index.js';
+
+/**
+ * Search history entry as saved before multi-language search
+ */
+type LegacySearchHistoryEntry = Omit<SearchHistoryEntry, 'languages'> & {
+  language?: string;
+  languages?: string[];
+};
+
+/**
+ * Get language choices: built-in list plus languages from user config
+ */
+export function getLanguageChoices(config: Partial<UserConfig>): string[] {
+  const custom = config.customLanguages || [];
+  return Array.from(new Set([...LANGUAGES, ...custom]));
+}
+
+/**
+ * Parse a comma separated language list, "any" meaning no language filter
+ */
+export function parseLanguages(input: string): string[] {
+  if (input.trim().toLowerCase() === 'any') {
+    return [];
+  }
+  return input
+    .split(',')
+    .map(language => language.trim())
+    .filter(language => language.length > 0);
+}
+
+/**
+ * Build search qualifiers for languages (GitHub ORs repeated language qualifiers)
+ */
+export function buildLanguageQualifier(languages: string[]): string {
+  return languages
+    .map(language => (language.includes(' ') ? `language:"${language}"` : `language:${language}`))
+    .join(' ');
+}
+
+/**
+ * Format languages for display
+ */
+export function formatLanguages(languages: string[] | undefined): string {
+  return languages && languages.length > 0 ? languages.join(', ') : 'Any';
+}
+
+/**
+ * Convert a history entry from the single-language format
+ */
+export function normalizeHistoryEntry(entry: LegacySearchHistoryEntry): SearchHistoryEntry {
+  const { language, languages, ...rest } = entry;
+  return {
+    ...rest,
+    languages: languages || (language ? [language] : [])
+  };
+}
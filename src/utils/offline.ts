@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+import type { OctokitInstance } from '../types/index.js';
+
+/**
+ * Offline state. With --offline, or once the network turns out to be
+ * unreachable, every request is answered from the cache and nothing that
+ * isn't cached is fetched.
+ */
+
+interface OfflineError {
+  status?: number;
+  response?: unknown;
+  offline?: boolean;
+}
+
+let offline = false;
+
+/**
+ * Whether requests are served from the cache only
+ */
+export function isOffline(): boolean {
+  return offline;
+}
+
+/**
+ * Switch to offline mode, announcing it once when the network dropped
+ */
+export function goOffline(reason: 'flag' | 'network'): void {
+  if (offline) {
+    return;
+  }
+
+  offline = true;
+  if (reason === 'network') {
+    console.error(chalk.yellow('\n📴 GitHub is unreachable, continuing offline with whatever is cached\n'));
+  }
+}
+
+/**
+ * Octokit reports connection failures as a 500 without a response
+ */
+export function isNetworkError(error: unknown): boolean {
+  const { status, response } = error as OfflineError;
+  return status === 500 && response === undefined;
+}
+
+/**
+ * Switch to offline mode when a request of the Octokit instance can't
+ * reach GitHub. The response cache does this itself, this is for runs
+ * without it, where the failed request is then not retried.
+ */
+export function installOfflineDetection(octokit: OctokitInstance): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    if (offline) {
+      throw createOfflineMissError(octokit.request.endpoint.parse(options).url);
+    }
+
+    try {
+      return await request(options);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        goOffline('network');
+        throw createOfflineMissError(octokit.request.endpoint.parse(options).url);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Error for data that is needed offline but was never cached
+ */
+export function createOfflineMissError(url: string): Error {
+  const error: Error & OfflineError = new Error(`Not cached, can't fetch offline: ${url}`);
+  error.offline = true;
+  return error;
+}
+
+/**
+ * Check if an error was caused by data missing from the cache while offline
+ */
+export function isOfflineMissError(error: unknown): boolean {
+  return (error as OfflineError).offline === true;
+}
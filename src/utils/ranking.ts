@@ -0,0 +1,74 @@
+import { RANKING_WEIGHTS, SORT_OPTIONS, RANKING_OPTIONS } from '../config.js';
+import type { RepoAnalysis, RankingStrategy, SearchSort } from '../types/index.js';
+
+/**
+ * Days without commits after which a repo counts as completely stale
+ */
+const STALE_AFTER_DAYS = 365;
+
+/**
+ * Freshness between 0 (stale or unknown) and 1 (committed today)
+ */
+function freshness(lastActivityDays: number | null): number {
+  if (lastActivityDays === null) return 0;
+  return 1 - Math.min(lastActivityDays, STALE_AFTER_DAYS) / STALE_AFTER_DAYS;
+}
+
+/**
+ * Blend score, stars, freshness and good first issues into a 0-1 value
+ */
+function weightedRank(repo: RepoAnalysis, maxStars: number): number {
+  const score = (repo.activityScore || 0) / 10;
+  // Logarithmic so a handful of huge repos don't flatten everything else
+  const stars = maxStars > 0 ? Math.log10(repo.stars + 1) / Math.log10(maxStars + 1) : 0;
+  const goodFirstIssues = Math.min(repo.goodFirstIssues.length / 5, 1);
+
+  return (
+    score * RANKING_WEIGHTS.SCORE +
+    stars * RANKING_WEIGHTS.STARS +
+    freshness(repo.lastActivity) * RANKING_WEIGHTS.FRESHNESS +
+    goodFirstIssues * RANKING_WEIGHTS.GOOD_FIRST_ISSUES
+  );
+}
+
+/**
+ * Sort analyzed repositories by the chosen ranking strategy (best first)
+ */
+export function rankResults(
+  results: RepoAnalysis[],
+  strategy: RankingStrategy = 'score'
+): RepoAnalysis[] {
+  const maxStars = Math.max(0, ...results.map(r => r.stars));
+
+  const rankValue = (repo: RepoAnalysis): number => {
+    switch (strategy) {
+      case 'stars':
+        return repo.stars;
+      case 'freshness':
+        return freshness(repo.lastActivity);
+      case 'good-first-issues':
+        return repo.goodFirstIssues.length;
+      case 'weighted':
+        return weightedRank(repo, maxStars);
+      case 'score':
+      default:
+        return repo.activityScore || 0;
+    }
+  };
+
+  return [...results].sort((a, b) => rankValue(b) - rankValue(a));
+}
+
+/**
+ * Check whether a string is a supported search sort
+ */
+export function isSearchSort(value: string): value is SearchSort {
+  return SORT_OPTIONS.some(option => option.value === value);
+}
+
+/**
+ * Check whether a string is a supported ranking strategy
+ */
+export function isRankingStrategy(value: string): value is RankingStrategy {
+  return RANKING_OPTIONS.some(option => option.value === value);
+}
@@ -0,0 +1,288 @@
+import chalk from 'chalk';
+import { RATE_LIMIT, REQUEST_COSTS, GRAPHQL_BATCH_SIZE } from '../config.js';
+import type {
+  OctokitInstance,
+  RateLimitResource,
+  RateLimitState,
+  RequestCost,
+  CostEstimateOptions,
+  BudgetShortfall
+} from '../types/index.js';
+
+/**
+ * Rate-limit aware scheduling for every request of an Octokit instance.
+ * Budgets come from the x-ratelimit-* headers of each response. When a
+ * budget is spent or a secondary limit is hit, requests wait for the reset
+ * with a countdown instead of failing or retrying blindly.
+ */
+
+type Headers = Record<string, string | number | undefined>;
+
+interface RateLimitedError {
+  status?: number;
+  message?: string;
+  response?: { headers?: Headers };
+}
+
+const TRACKED_RESOURCES: RateLimitResource[] = ['core', 'search', 'graphql'];
+
+const budgets = new Map<RateLimitResource, RateLimitState>();
+const pendingWaits = new Map<RateLimitResource, Promise<void>>();
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+function isTrackedResource(value: unknown): value is RateLimitResource {
+  return TRACKED_RESOURCES.includes(value as RateLimitResource);
+}
+
+/**
+ * Resource an endpoint counts against, null for /rate_limit which is free
+ */
+function getResource(url: string): RateLimitResource | null {
+  const path = url.replace(/^https?:\/\/[^/]+/, '');
+  if (path.startsWith('/rate_limit')) return null;
+  if (path.startsWith('/search/')) return 'search';
+  if (path.startsWith('/graphql')) return 'graphql';
+  return 'core';
+}
+
+function secondsUntil(resetEpochSeconds: number): number {
+  return Math.max(0, Math.ceil(resetEpochSeconds - Date.now() / 1000));
+}
+
+/**
+ * Remember the budget reported by a response
+ */
+function recordHeaders(headers: Headers | undefined, fallback: RateLimitResource): void {
+  if (!headers || headers['x-ratelimit-remaining'] === undefined) {
+    return;
+  }
+
+  const resource = headers['x-ratelimit-resource'] ?? fallback;
+  if (!isTrackedResource(resource)) {
+    return;
+  }
+
+  budgets.set(resource, {
+    limit: Number(headers['x-ratelimit-limit']),
+    remaining: Number(headers['x-ratelimit-remaining']),
+    used: Number(headers['x-ratelimit-used'] ?? 0),
+    reset: Number(headers['x-ratelimit-reset'])
+  });
+}
+
+/**
+ * Format seconds as "1h 5m", "3m 20s" or "42s"
+ */
+export function formatWait(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
+
+/**
+ * Sleep with a countdown on stderr
+ */
+async function waitWithCountdown(seconds: number, reason: string): Promise<void> {
+  if (!process.stderr.isTTY) {
+    console.error(chalk.yellow(`⏳ ${reason}, waiting ${formatWait(seconds)}...`));
+    await sleep(seconds * 1000);
+    return;
+  }
+
+  const end = Date.now() + seconds * 1000;
+  while (Date.now() < end) {
+    const left = Math.ceil((end - Date.now()) / 1000);
+    process.stderr.write(`\r\x1b[K${chalk.yellow(`⏳ ${reason}, resuming in ${formatWait(left)}`)}`);
+    await sleep(Math.min(1000, end - Date.now()));
+  }
+  process.stderr.write('\r\x1b[K');
+}
+
+/**
+ * Concurrent requests to the same resource share one wait and one countdown
+ */
+function waitForResource(resource: RateLimitResource, seconds: number, reason: string): Promise<void> {
+  let wait = pendingWaits.get(resource);
+  if (!wait) {
+    wait = waitWithCountdown(seconds, reason).finally(() => pendingWaits.delete(resource));
+    pendingWaits.set(resource, wait);
+  }
+  return wait;
+}
+
+/**
+ * Error shaped like GitHub's own, so isRateLimitError recognizes it
+ */
+function budgetExhaustedError(resource: RateLimitResource, reset: number): Error {
+  const resetAt = new Date(reset * 1000).toLocaleTimeString();
+  const error: Error & { status?: number } = new Error(
+    `API rate limit exceeded for ${resource}, resets at ${resetAt}`
+  );
+  error.status = 403;
+  return error;
+}
+
+/**
+ * Wait until the resource has budget left, or fail when the reset is too far away
+ */
+async function waitForBudget(resource: RateLimitResource): Promise<void> {
+  const budget = budgets.get(resource);
+  if (!budget) {
+    return;
+  }
+
+  if (budget.remaining <= 0) {
+    const seconds = secondsUntil(budget.reset);
+    if (seconds > RATE_LIMIT.MAX_WAIT_SECONDS) {
+      throw budgetExhaustedError(resource, budget.reset);
+    }
+    if (seconds > 0) {
+      await waitForResource(resource, seconds, `${resource} rate limit reached`);
+    }
+    return;
+  }
+
+  // Count in-flight requests so parallel workers don't overshoot
+  budget.remaining--;
+}
+
+/**
+ * Seconds to wait before retrying a rate limited request, or null when
+ * the error is not a rate limit
+ */
+function getRetryWait(error: unknown, resource: RateLimitResource): number | null {
+  const { status, message = '', response } = error as RateLimitedError;
+  if (status !== 403 && status !== 429) {
+    return null;
+  }
+
+  const headers = response?.headers || {};
+
+  // Secondary limits tell us how long to back off
+  if (headers['retry-after'] !== undefined) {
+    return Number(headers['retry-after']);
+  }
+  if (/secondary rate limit/i.test(message)) {
+    return RATE_LIMIT.DEFAULT_SECONDARY_WAIT_SECONDS;
+  }
+
+  // Primary limit, wait for the reset
+  if (headers['x-ratelimit-remaining'] !== undefined && Number(headers['x-ratelimit-remaining']) === 0) {
+    const budget = budgets.get(resource);
+    const reset = Number(headers['x-ratelimit-reset'] ?? budget?.reset ?? 0);
+    return secondsUntil(reset) + 1;
+  }
+
+  return null;
+}
+
+/**
+ * Route every request of the Octokit instance through the scheduler
+ */
+export function installRateLimitScheduler(octokit: OctokitInstance): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    const resource = getResource(options.url);
+    if (!resource) {
+      return request(options);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForBudget(resource);
+
+      try {
+        const response = await request(options);
+        recordHeaders(response.headers as Headers, resource);
+        return response;
+      } catch (error) {
+        recordHeaders((error as RateLimitedError).response?.headers, resource);
+
+        const wait = getRetryWait(error, resource);
+        if (wait === null || attempt >= RATE_LIMIT.SECONDARY_RETRIES || wait > RATE_LIMIT.MAX_WAIT_SECONDS) {
+          throw error;
+        }
+
+        await waitForResource(resource, wait, `${resource} rate limit hit`);
+      }
+    }
+  });
+}
+
+/**
+ * Fetch current limits, this endpoint doesn't count against any of them
+ */
+export async function fetchRateLimits(
+  octokit: OctokitInstance
+): Promise<Map<RateLimitResource, RateLimitState>> {
+  const { data } = await octokit.rest.rateLimit.get();
+  const resources = data.resources as Partial<Record<string, RateLimitState>>;
+
+  for (const resource of TRACKED_RESOURCES) {
+    const state = resources[resource];
+    if (state) {
+      budgets.set(resource, {
+        limit: state.limit,
+        remaining: state.remaining,
+        used: state.used,
+        reset: state.reset
+      });
+    }
+  }
+
+  return new Map(budgets);
+}
+
+/**
+ * Estimate requests for searching and analyzing a number of repositories
+ */
+export function estimateRequestCost(
+  repoCount: number,
+  searchPages: number,
+  options: CostEstimateOptions
+): RequestCost {
+  const perRepo = (options.batched ? REQUEST_COSTS.BATCHED_REST_PER_REPO : REQUEST_COSTS.REST_PER_REPO)
+    + (options.advanced ? REQUEST_COSTS.ADVANCED_PER_REPO : 0);
+
+  return {
+    search: searchPages * REQUEST_COSTS.SEARCH_PER_PAGE,
+    core: repoCount * perRepo,
+    graphql: options.batched
+      ? Math.ceil(repoCount / GRAPHQL_BATCH_SIZE) * REQUEST_COSTS.GRAPHQL_PER_BATCH
+      : 0
+  };
+}
+
+/**
+ * Resources that don't have enough budget left for an estimated cost
+ */
+export async function checkBudget(
+  octokit: OctokitInstance,
+  cost: RequestCost
+): Promise<BudgetShortfall[]> {
+  const needed = TRACKED_RESOURCES.filter(resource => (cost[resource] || 0) > 0);
+
+  if (needed.some(resource => !budgets.has(resource))) {
+    try {
+      await fetchRateLimits(octokit);
+    } catch {
+      // Unknown budget, let the scheduler deal with limits as they come
+      return [];
+    }
+  }
+
+  const shortfalls: BudgetShortfall[] = [];
+  for (const resource of needed) {
+    const budget = budgets.get(resource);
+    const requests = cost[resource] || 0;
+    if (budget && requests > budget.remaining) {
+      shortfalls.push({ resource, needed: requests, remaining: budget.remaining, reset: budget.reset });
+    }
+  }
+
+  return shortfalls;
+}
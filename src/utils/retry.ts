@@ -1,14 +1,18 @@
 import { DEFAULT_CONFIG } from '../config.js';
+import { isOfflineMissError } from './offline.js';
+import { isNotRecordedError } from './fixtures.js';
 
 interface RetryError {
   status?: number;
   message?: string;
+  offline?: boolean;
 }
 
 const sleep = (ms: number): Promise<void> =>
   new Promise(resolve => setTimeout(resolve, ms));
 
-const NON_RETRYABLE_STATUS_CODES = new Set([401, 404, 422]);
+// 202 comes from stats GitHub was still computing after the provider polled
+const NON_RETRYABLE_STATUS_CODES = new Set([202, 401, 404, 422]);
 
 /**
  * Retry a function with exponential backoff
@@ -31,6 +35,22 @@ export async function retryWithBackoff<T>(
         throw error;
       }
 
+      // The rate limit scheduler already waited for what it could,
+      // backing off a few seconds won't bring the budget back
+      if (isRateLimitError(error)) {
+        throw error;
+      }
+
+      // Offline, the cache won't have it on the next attempt either
+      if (isOfflineMissError(error)) {
+        throw error;
+      }
+
+      // Replaying, a request missing from the fixture stays missing
+      if (isNotRecordedError(error)) {
+        throw error;
+      }
+
       // If it's the last attempt, throw the error
       if (attempt === maxAttempts) {
         throw error;
@@ -58,6 +78,26 @@ export async function withRetry<T>(
     return await retryWithBackoff(apiCall);
   } catch (error) {
     const errorMessage = (error as Error).message || 'Unknown error';
-    throw new Error(`${description} failed after retries: ${errorMessage}`);
+    const wrapped: Error & RetryError = new Error(`${description} failed after retries: ${errorMessage}`);
+    // Keep the HTTP status so callers can tell rate limits from auth failures,
+    // and the offline flag for data that isn't cached
+    wrapped.status = (error as RetryError).status;
+    wrapped.offline = (error as RetryError).offline;
+    throw wrapped;
   }
 }
+
+/**
+ * Check if an error was caused by GitHub rate limiting
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const { status, message = '' } = error as RetryError;
+  return status === 429 || (status === 403 && /rate limit/i.test(message));
+}
+
+/**
+ * Check if an error was caused by a missing or invalid token
+ */
+export function isAuthError(error: unknown): boolean {
+  return (error as RetryError).status === 401;
+}
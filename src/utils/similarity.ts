@@ -0,0 +1,87 @@
+import { SIMILARITY_WEIGHTS } from '../config.js';
+import type { RepoAnalysis, SearchParams } from '../types/index.js';
+
+/**
+ * GitHub search allows at most 5 AND/OR/NOT operators per query
+ */
+const MAX_QUERY_TERMS = 6;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+  'your', 'you', 'our', 'all', 'any', 'more', 'most', 'no', 'not', 'only',
+  'simple', 'fast', 'tiny', 'small', 'lightweight', 'modern', 'easy', 'based',
+  'library', 'framework', 'tool', 'tools', 'written', 'using', 'use', 'built',
+  'project', 'repository', 'description'
+]);
+
+/**
+ * Pick the most distinctive words of a repository description
+ */
+export function extractKeywords(description: string, max: number = 3): string[] {
+  const words = description
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+
+  // Longer words tend to be more specific than short generic ones
+  return Array.from(new Set(words))
+    .sort((a, b) => b.length - a.length)
+    .slice(0, max);
+}
+
+/**
+ * Build search params for repositories similar to an analyzed one. Topics and
+ * description keywords are ORed, GitHub matches them against names,
+ * descriptions and topics.
+ */
+export function buildSimilarSearchParams(
+  analysis: RepoAnalysis,
+  base: SearchParams
+): SearchParams {
+  const terms = Array.from(new Set([
+    ...analysis.topics,
+    ...extractKeywords(analysis.description)
+  ])).slice(0, MAX_QUERY_TERMS);
+
+  return {
+    ...base,
+    keywords: terms.join(' OR '),
+    languages: analysis.language ? [analysis.language] : [],
+    requireGoodFirstIssues: false,
+    sort: 'best-match',
+    // One extra result, the repository itself usually matches best
+    maxResults: base.maxResults + 1
+  };
+}
+
+/**
+ * Share of topics two repositories have in common (Jaccard index, 0-1)
+ */
+export function topicOverlap(a: RepoAnalysis, b: RepoAnalysis): number {
+  const topicsA = new Set(a.topics);
+  const topicsB = new Set(b.topics);
+  const union = new Set([...topicsA, ...topicsB]);
+
+  if (union.size === 0) return 0;
+
+  const shared = [...topicsA].filter(topic => topicsB.has(topic)).length;
+  return shared / union.size;
+}
+
+/**
+ * Drop the source repository and sort the rest by topic overlap and score
+ */
+export function rankBySimilarity(
+  source: RepoAnalysis,
+  results: RepoAnalysis[]
+): RepoAnalysis[] {
+  const similarity = (repo: RepoAnalysis): number =>
+    topicOverlap(source, repo) * SIMILARITY_WEIGHTS.TOPIC_OVERLAP +
+    ((repo.activityScore || 0) / 10) * SIMILARITY_WEIGHTS.SCORE;
+
+  return results
+    .filter(repo => repo.name.toLowerCase() !== source.name.toLowerCase())
+    .sort((a, b) => similarity(b) - similarity(a));
+}
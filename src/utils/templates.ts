@@ -1,7 +1,8 @@
 import type { SearchParams } from '../types/index.js';
 
 /**
- * Quick search templates for common use cases
+ * Quick search templates for common use cases. Keywords may contain relative
+ * dates (see dateExpressions.ts) that resolve when the search runs.
  */
 
 export interface QuickTemplate {
@@ -15,11 +16,11 @@ export const QUICK_TEMPLATES: Record<string, QuickTemplate> = {
     name: 'Trending',
     description: 'Trending repositories this week',
     params: {
-      keywords: 'created:>2024-12-01',
+      keywords: 'created:>@-7d',
       minStars: 500,
       maxResults: 20,
       requireGoodFirstIssues: false,
-      language: 'TypeScript'
+      languages: ['TypeScript']
     }
   },
   beginner: {
@@ -30,14 +31,16 @@ export const QUICK_TEMPLATES: Record<string, QuickTemplate> = {
       minStars: 100,
       maxResults: 30,
       requireGoodFirstIssues: true,
-      minForks: 10
+      minForks: 10,
+      excludeArchived: true,
+      excludeForks: true
     }
   },
   active: {
     name: 'Super Active',
     description: 'Highly active projects with recent commits',
     params: {
-      keywords: 'pushed:>2024-12-01',
+      keywords: 'pushed:>@-7d',
       minStars: 500,
       maxResults: 20,
       requireGoodFirstIssues: false
@@ -57,7 +60,8 @@ export const QUICK_TEMPLATES: Record<string, QuickTemplate> = {
     name: 'Hacktoberfest',
     description: 'Hacktoberfest-ready repositories',
     params: {
-      keywords: 'hacktoberfest topic:hacktoberfest',
+      keywords: 'hacktoberfest',
+      topics: ['hacktoberfest'],
       minStars: 50,
       maxResults: 30,
       requireGoodFirstIssues: true
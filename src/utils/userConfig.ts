@@ -1,7 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { CONFIG_FILE, DEFAULT_CONFIG } from '../config.js';
-import type { UserConfig, SearchParams } from '../types/index.js';
+import { normalizeHistoryEntry } from './languages.js';
+import type { UserConfig, SearchParams, SearchHistoryEntry } from '../types/index.js';
 
 /**
  * Load user configuration from file
@@ -55,7 +56,7 @@ export async function updateUserConfig(
  */
 export async function addToHistory(searchParams: SearchParams): Promise<void> {
   const config = await loadUserConfig();
-  const history = config.searchHistory || [];
+  const history = (config.searchHistory || []).map(normalizeHistoryEntry);
 
   // Add new search with timestamp
   history.unshift({
@@ -72,7 +73,7 @@ export async function addToHistory(searchParams: SearchParams): Promise<void> {
 /**
  * Get search history
  */
-export async function getSearchHistory(): Promise<SearchParams[]> {
+export async function getSearchHistory(): Promise<SearchHistoryEntry[]> {
   const config = await loadUserConfig();
-  return config.searchHistory || [];
+  return (config.searchHistory || []).map(normalizeHistoryEntry);
 }
@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import type { BusFactor, Trend } from '../types/index.js';
 
 /**
  * Visual effects and enhancements for better UX
@@ -26,6 +27,19 @@ export function createSparkline(data: number[]): string {
     .join('');
 }
 
+/**
+ * Sum data points into a number of equal buckets, for sparklines narrower
+ * than the data
+ */
+export function bucketSeries(data: number[], buckets: number): number[] {
+  const size = Math.ceil(data.length / buckets);
+  const result: number[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    result.push(data.slice(i, i + size).reduce((a, b) => a + b, 0));
+  }
+  return result;
+}
+
 /**
  * Create ASCII bar chart
  */
@@ -82,7 +96,7 @@ export function formatNumberWithColor(value: number, thresholds: { low: number;
 /**
  * Create trend indicator
  */
-export function getTrendIndicator(trend: 'up' | 'down' | 'stable'): string {
+export function getTrendIndicator(trend: Trend): string {
   switch (trend) {
     case 'up':
       return chalk.green('↑');
@@ -142,6 +156,37 @@ export function visualizeActivity(lastActivityDays: number | null): string {
   }
 }
 
+/**
+ * Create bus factor visualization, one author behind half the recent
+ * commits means the project depends on a single maintainer
+ */
+export function visualizeBusFactor(busFactor: BusFactor | null): string {
+  if (busFactor === null) {
+    return chalk.gray('🚌 No recent commits');
+  }
+
+  const text = `🚌 Bus factor ${busFactor.share50} (50%) / ${busFactor.share80} (80%) of ${busFactor.commits} recent commits`;
+  if (busFactor.share50 === 1) {
+    return chalk.red(`${text}, single maintainer`);
+  } else if (busFactor.share50 === 2) {
+    return chalk.yellow(text);
+  }
+  return chalk.green(text);
+}
+
+/**
+ * Create commit activity visualization, a sparkline of weekly commits
+ * with the trend of the last weeks
+ */
+export function visualizeCommitActivity(weeks: number[], trend: Trend): string {
+  const total = weeks.reduce((a, b) => a + b, 0);
+  if (total === 0) {
+    return chalk.gray(`📈 No commits in ${weeks.length} weeks`);
+  }
+
+  return `📈 ${chalk.cyan(createSparkline(weeks))} ${getTrendIndicator(trend)} ${total} commits in ${weeks.length} weeks`;
+}
+
 /**
  * Create health indicator
  */